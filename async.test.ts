@@ -1,5 +1,15 @@
-import { assertEquals } from "https://deno.land/std@0.97.0/testing/asserts.ts";
+import {
+  assertEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "https://deno.land/std@0.97.0/testing/asserts.ts";
 import { AsyncIter } from "./async.ts";
+import { ChannelFullError } from "./channel.ts";
+import type { OverflowStrategy } from "./channel.ts";
+import { err, ok } from "./result.ts";
+import { Iter } from "./sync.ts";
+import { ParseError } from "./text.ts";
+import { TimeoutError, VirtualScheduler } from "./time.ts";
 
 async function* sequentialIntegers(start = 1, end = 10) {
   for (let i = start; i <= end; i++) {
@@ -44,6 +54,43 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "flat iter of async iterables",
+  async fn() {
+    const items = await AsyncIter.from([1, 3])
+      .mapSync((start) => sequentialIntegers(start, start + 1))
+      .flat()
+      .collect();
+
+    assertEquals(items, [1, 2, 3, 4]);
+  },
+});
+
+Deno.test({
+  name: "from iter",
+  async fn() {
+    const stream = new ReadableStream<number>({
+      start(controller) {
+        controller.enqueue(1);
+        controller.close();
+      },
+    });
+
+    assertEquals(await AsyncIter.from([1, 2]).collect(), [1, 2]);
+    assertEquals(
+      await AsyncIter.from([Promise.resolve(1), Promise.resolve(2)]).collect(),
+      [1, 2],
+    );
+    assertEquals(await AsyncIter.from(sequentialIntegers(1, 2)).collect(), [
+      1,
+      2,
+    ]);
+    assertEquals(await AsyncIter.from(stream).collect(), [1]);
+    assertEquals(await AsyncIter.from(Promise.resolve(1)).collect(), [1]);
+    assertEquals(await AsyncIter.from("ab").collect(), ["a", "b"]);
+  },
+});
+
 Deno.test({
   name: "collect iter",
   async fn() {
@@ -221,3 +268,1883 @@ Deno.test({
     );
   },
 });
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test({
+  name: "buffered iter",
+  async fn() {
+    const result = await AsyncIter.fromIterable([30, 10, 20])
+      .mapSync((ms) => () => delay(ms).then(() => ms))
+      .buffered(3)
+      .collect();
+
+    assertEquals(result, [30, 10, 20]);
+  },
+});
+
+Deno.test({
+  name: "bufferUnordered iter",
+  async fn() {
+    const result = await AsyncIter.fromIterable([30, 10, 20])
+      .mapSync((ms) => () => delay(ms).then(() => ms))
+      .bufferUnordered(3)
+      .collect();
+
+    assertEquals(result, [10, 20, 30]);
+  },
+});
+
+Deno.test({
+  name: "buffered iter rejects limits below 1",
+  fn() {
+    const tasks = AsyncIter.from([() => Promise.resolve(1)]);
+
+    for (const limit of [0, -1, NaN]) {
+      assertThrows(() => tasks.buffered(limit), RangeError, "at least 1");
+      assertThrows(
+        () => tasks.bufferUnordered(limit),
+        RangeError,
+        "at least 1",
+      );
+      assertThrows(
+        () => tasks.mapConcurrent((task) => task(), limit),
+        RangeError,
+        "at least 1",
+      );
+      assertThrows(
+        () => tasks.mapInWorkers("./missing.ts", "missing", { limit }),
+        RangeError,
+        "at least 1",
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "mapConcurrent iter",
+  async fn() {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const result = await new AsyncIter(sequentialIntegers(1, 10))
+      .mapConcurrent(async (x) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await delay(1);
+        inFlight--;
+        return x * 2;
+      }, 3)
+      .collect();
+
+    assertEquals(result, [2, 4, 6, 8, 10, 12, 14, 16, 18, 20]);
+    assertEquals(maxInFlight, 3);
+  },
+});
+
+Deno.test({
+  name: "mapConcurrent iter pulls lazily",
+  async fn() {
+    let pulled = 0;
+
+    const result = await AsyncIter.repeatWith((i) => {
+      pulled++;
+      return Promise.resolve(i);
+    })
+      .mapConcurrent((x) => Promise.resolve(x * 2), 2)
+      .take(3)
+      .collect();
+
+    assertEquals(result, [0, 2, 4]);
+    assertEquals(pulled <= 5, true);
+  },
+});
+
+Deno.test({
+  name: "filterMapConcurrent iter",
+  async fn() {
+    const result = await new AsyncIter(sequentialIntegers(1, 10))
+      .filterMapConcurrent(
+        (x) => Promise.resolve(x % 2 == 0 ? undefined : x * 2),
+        4,
+      ).collect();
+
+    assertEquals(result, [2, 6, 10, 14, 18]);
+  },
+});
+
+Deno.test({
+  name: "forEachConcurrent iter",
+  async fn() {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const seen: (number | undefined)[] = [];
+
+    await AsyncIter.fromIterable([1, undefined, 3, 4, 5])
+      .forEachConcurrent(async (item) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await delay(1);
+        seen.push(item);
+        inFlight--;
+      }, 2);
+
+    assertEquals(seen.length, 5);
+    assertEquals(maxInFlight, 2);
+  },
+});
+
+Deno.test({
+  name: "forEachConcurrent iter pulls lazily",
+  async fn() {
+    let processed = 0;
+
+    await assertThrowsAsync(
+      () =>
+        AsyncIter.repeatWith((i) => Promise.resolve(i))
+          .forEachConcurrent(async (item) => {
+            await delay(1);
+            if (item === 5) throw new Error("stop");
+            processed++;
+          }, 2),
+      Error,
+      "stop",
+    );
+
+    assertEquals(processed < 10, true);
+  },
+});
+
+Deno.test({
+  name: "forEachConcurrent iter rejects limits below 1",
+  async fn() {
+    for (const limit of [0, -1, NaN]) {
+      await assertThrowsAsync(
+        () =>
+          new AsyncIter(sequentialIntegers(1, 3))
+            .forEachConcurrent(() => Promise.resolve(), limit),
+        RangeError,
+        "limit must be at least 1",
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "forEachConcurrent iter collects errors",
+  async fn() {
+    const error = await assertThrowsAsync(
+      () =>
+        new AsyncIter(sequentialIntegers(1, 10))
+          .forEachConcurrent(
+            async (item) => {
+              await delay(1);
+              if (item % 5 == 0) throw new Error(`${item}`);
+            },
+            3,
+            { collectErrors: true },
+          ),
+      AggregateError,
+    );
+
+    assertEquals(
+      (error as AggregateError).errors.map((e) => e.message),
+      ["5", "10"],
+    );
+  },
+});
+
+/**
+ * Wraps the sequential integers in a generator that records when its finally block has run.
+ */
+function trackedIntegers(start = 1, end = 10) {
+  const state = { pulled: 0, closed: false };
+
+  const iter = async function* () {
+    try {
+      for await (const item of sequentialIntegers(start, end)) {
+        state.pulled++;
+        yield item;
+      }
+    } finally {
+      state.closed = true;
+    }
+  }();
+
+  return [state, iter] as const;
+}
+
+Deno.test({
+  name: "take iter closes source",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const items = await new AsyncIter(source).take(2).collect();
+
+    assertEquals(items, [1, 2]);
+    assertEquals(state, { pulled: 2, closed: true });
+  },
+});
+
+Deno.test({
+  name: "breaking out of iter closes source",
+  async fn() {
+    const [state, source] = trackedIntegers();
+    const iter = new AsyncIter(source).mapSync((x) => x * 2)
+      .filter((x) => Promise.resolve(x > 0));
+
+    for await (const item of iter) {
+      if (item == 4) break;
+    }
+
+    assertEquals(state, { pulled: 2, closed: true });
+  },
+});
+
+Deno.test({
+  name: "chain and zip iter with sync iterables",
+  async fn() {
+    const chained = await new AsyncIter(sequentialIntegers(1, 2))
+      .chain([3], Iter.range(4, 6))
+      .collect();
+    const zipped = await new AsyncIter(sequentialIntegers(1, 3))
+      .zip(["a", "b"])
+      .collect();
+
+    assertEquals(chained, [1, 2, 3, 4, 5]);
+    assertEquals(zipped, [[1, "a"], [2, "b"]]);
+  },
+});
+
+Deno.test({
+  name: "zip iter closes both sides",
+  async fn() {
+    const [leftState, left] = trackedIntegers(1, 5);
+    const [rightState, right] = trackedIntegers(6, 10);
+    const zipped = await new AsyncIter(left).zip(right).take(2).collect();
+
+    assertEquals(zipped, [[1, 6], [2, 7]]);
+    assertEquals(leftState.closed, true);
+    assertEquals(rightState.closed, true);
+  },
+});
+
+Deno.test({
+  name: "chain iter closes current segment",
+  async fn() {
+    const [firstState, first] = trackedIntegers(1, 2);
+    const [secondState, second] = trackedIntegers(3, 4);
+    const items = await new AsyncIter(first).chain(second).take(3).collect();
+
+    assertEquals(items, [1, 2, 3]);
+    assertEquals(firstState.closed, true);
+    assertEquals(secondState, { pulled: 1, closed: true });
+  },
+});
+
+Deno.test({
+  name: "mapConcurrent iter closes source",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const items = await new AsyncIter(source)
+      .mapConcurrent((x) => Promise.resolve(x), 3)
+      .take(2)
+      .collect();
+
+    assertEquals(items, [1, 2]);
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "forEachConcurrent iter closes source on failure",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+
+    await assertThrowsAsync(() =>
+      new AsyncIter(source).forEachConcurrent((x) => {
+        if (x == 3) return Promise.reject(new Error("failed"));
+        return Promise.resolve();
+      }, 2)
+    );
+
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "return iter",
+  async fn() {
+    const [state, source] = trackedIntegers();
+    const iter = new AsyncIter(source).enumerate();
+
+    await iter.next();
+
+    assertEquals(await iter.return(), { done: true, value: undefined });
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "peekable iter",
+  async fn() {
+    const iter = new AsyncIter(sequentialIntegers(1, 3)).peekable();
+
+    assertEquals(await iter.peek(), 1);
+    assertEquals(await iter.peek(), 1);
+    assertEquals(await iter.next(), { done: false, value: 1 });
+    assertEquals(await iter.mapSync((x) => x * 2).collect(), [4, 6]);
+    assertEquals(await iter.peek(), undefined);
+  },
+});
+
+Deno.test({
+  name: "nextIf iter",
+  async fn() {
+    const iter = new AsyncIter(sequentialIntegers(1, 5)).peekable();
+
+    assertEquals(await iter.nextIf((x) => x < 2), 1);
+    assertEquals(await iter.nextIf((x) => x < 2), undefined);
+    assertEquals(await iter.nextIfEq(3), undefined);
+    assertEquals(await iter.nextIfEq(2), 2);
+    assertEquals(await iter.collect(), [3, 4, 5]);
+  },
+});
+
+Deno.test({
+  name: "chunks iter",
+  async fn() {
+    const chunks = await new AsyncIter(sequentialIntegers(1, 7)).chunks(3)
+      .collect();
+
+    assertEquals(chunks, [[1, 2, 3], [4, 5, 6], [7]]);
+  },
+});
+
+Deno.test({
+  name: "chunksExact iter",
+  async fn() {
+    const iter = new AsyncIter(sequentialIntegers(1, 7)).chunksExact(3);
+
+    assertEquals(await iter.collect(), [[1, 2, 3], [4, 5, 6]]);
+    assertEquals(iter.remainder(), [7]);
+  },
+});
+
+Deno.test({
+  name: "windows iter",
+  async fn() {
+    const windows = await new AsyncIter(sequentialIntegers(1, 5)).windows(3)
+      .collect();
+
+    assertEquals(windows, [[1, 2, 3], [2, 3, 4], [3, 4, 5]]);
+  },
+});
+
+Deno.test({
+  name: "chunksTimeout iter",
+  async fn() {
+    const chunks = await AsyncIter.fromIterable([0, 0, 50, 0, 0, 0])
+      .map(async (ms) => {
+        await delay(ms);
+        return ms;
+      })
+      .chunksTimeout(4, 20)
+      .collect();
+
+    assertEquals(chunks, [[0, 0], [50, 0, 0, 0]]);
+  },
+});
+
+Deno.test({
+  name: "readyChunks iter",
+  async fn() {
+    const chunks = await new AsyncIter(sequentialIntegers(1, 5)).readyChunks(2)
+      .collect();
+
+    assertEquals(chunks, [[1, 2], [3, 4], [5]]);
+  },
+});
+
+async function* delayedItems<T>(items: [number, T][]) {
+  for (const [ms, item] of items) {
+    await delay(ms);
+    yield item;
+  }
+}
+
+Deno.test({
+  name: "merge iter",
+  async fn() {
+    const merged = await AsyncIter.merge(
+      delayedItems([[10, "a1"], [20, "a2"]]),
+      delayedItems([[5, "b1"], [10, "b2"], [20, "b3"]]),
+    ).collect();
+
+    assertEquals(merged, ["b1", "a1", "b2", "a2", "b3"]);
+  },
+});
+
+Deno.test({
+  name: "merge iter closes sources",
+  async fn() {
+    const [leftState, left] = trackedIntegers(1, Infinity);
+    const [rightState, right] = trackedIntegers(1, Infinity);
+    const items = await AsyncIter.merge(left, right).take(5).collect();
+    await delay(1);
+
+    assertEquals(items.length, 5);
+    assertEquals(leftState.closed, true);
+    assertEquals(rightState.closed, true);
+  },
+});
+
+Deno.test({
+  name: "mergeAll iter",
+  async fn() {
+    let open = 0;
+    let maxOpen = 0;
+
+    async function* source(id: number) {
+      maxOpen = Math.max(maxOpen, ++open);
+      await delay(id);
+      yield id;
+      open--;
+    }
+
+    async function* sources() {
+      for (const id of [30, 10, 40, 5]) yield source(id);
+    }
+
+    const items = await AsyncIter.mergeAll(sources(), 2).collect();
+
+    assertEquals(items, [10, 30, 5, 40]);
+    assertEquals(maxOpen, 2);
+  },
+});
+
+/**
+ * Reads the iterator slowly enough that every source it reads from always has an item ready.
+ */
+async function collectSlowly<T>(iter: AsyncIter<T>): Promise<T[]> {
+  const items: T[] = [];
+
+  for await (const item of iter) {
+    items.push(item);
+    await delay(1);
+  }
+
+  return items;
+}
+
+Deno.test({
+  name: "select iter",
+  async fn() {
+    const items = await collectSlowly(
+      new AsyncIter(sequentialIntegers(1, 3)).select(
+        sequentialIntegers(4, 6),
+      ),
+    );
+
+    assertEquals(items, [1, 4, 2, 5, 3, 6]);
+  },
+});
+
+Deno.test({
+  name: "selectWithStrategy iter",
+  async fn() {
+    const items = await collectSlowly(
+      new AsyncIter(sequentialIntegers(1, 3)).selectWithStrategy(
+        sequentialIntegers(4, 6),
+        "biased",
+      ),
+    );
+
+    assertEquals(items, [1, 2, 3, 4, 5, 6]);
+  },
+});
+
+Deno.test({
+  name: "race iter",
+  async fn() {
+    const [state, slow] = trackedIntegers(1, 3);
+    const items = await AsyncIter.race(
+      AsyncIter.fromIterable([0]).map(async () => {
+        await delay(20);
+        return 0;
+      }).chain(slow),
+      delayedItems([[5, 10], [5, 20]]),
+    ).collect();
+    await delay(30);
+
+    assertEquals(items, [10, 20]);
+    assertEquals(state.pulled, 0);
+  },
+});
+
+Deno.test({
+  name: "flattenUnordered iter",
+  async fn() {
+    let open = 0;
+    let maxOpen = 0;
+
+    async function* source(id: number) {
+      maxOpen = Math.max(maxOpen, ++open);
+      await delay(id);
+      yield id;
+      open--;
+    }
+
+    const items = await AsyncIter.fromIterable([30, 10, 40, 5])
+      .mapSync(source)
+      .flattenUnordered(2)
+      .collect();
+
+    assertEquals(items, [10, 30, 5, 40]);
+    assertEquals(maxOpen, 2);
+  },
+});
+
+Deno.test({
+  name: "flatMapConcurrent iter",
+  async fn() {
+    const items = await new AsyncIter(sequentialIntegers(1, 3))
+      .flatMapConcurrent((x) => sequentialIntegers(x * 10, x * 10 + 1))
+      .collect();
+
+    assertEquals(items.sort(), [10, 11, 20, 21, 30, 31]);
+  },
+});
+
+Deno.test({
+  name: "intoResults iter",
+  async fn() {
+    const error = new Error("failed");
+    const results = await new AsyncIter(async function* () {
+      yield 1;
+      throw error;
+    }()).intoResults().collect();
+
+    assertEquals(results, [ok(1), err(error)]);
+  },
+});
+
+Deno.test({
+  name: "tryMap iter",
+  async fn() {
+    const results = await new AsyncIter(sequentialIntegers(1, 3))
+      .intoResults()
+      .tryMap((x) => x == 2 ? Promise.reject("two") : Promise.resolve(x * 2))
+      .collect();
+
+    assertEquals(results, [ok(2), err("two"), ok(6)]);
+  },
+});
+
+Deno.test({
+  name: "tryFilter iter",
+  async fn() {
+    const results = await AsyncIter.fromIterable([ok(1), err("failed"), ok(2)])
+      .tryFilter((x) => Promise.resolve(x % 2 == 0))
+      .collect();
+
+    assertEquals(results, [err("failed"), ok(2)]);
+  },
+});
+
+Deno.test({
+  name: "mapErr iter",
+  async fn() {
+    const results = await AsyncIter.fromIterable([ok(1), err("failed")])
+      .mapErr((error) => error.toUpperCase())
+      .collect();
+
+    assertEquals(results, [ok(1), err("FAILED")]);
+  },
+});
+
+Deno.test({
+  name: "catchError iter",
+  async fn() {
+    const results = await AsyncIter.fromIterable([ok(1), err("failed")])
+      .catchError((error) => Promise.resolve(error.length))
+      .collect();
+
+    assertEquals(results, [ok(1), ok(6)]);
+  },
+});
+
+Deno.test({
+  name: "retry iter",
+  async fn() {
+    const attempts = new Map<number, number>();
+    const results = await new AsyncIter(sequentialIntegers(1, 3))
+      .intoResults()
+      .retry((x) => {
+        const attempt = (attempts.get(x) ?? 0) + 1;
+        attempts.set(x, attempt);
+
+        if (attempt < x) return Promise.reject(`attempt ${attempt}`);
+        return Promise.resolve(x);
+      }, { attempts: 2, delay: () => 1 })
+      .collect();
+
+    assertEquals(results, [ok(1), ok(2), err("attempt 2")]);
+  },
+});
+
+Deno.test({
+  name: "tryCollect iter",
+  async fn() {
+    assertEquals(
+      await new AsyncIter(sequentialIntegers(1, 3)).intoResults().tryCollect(),
+      [1, 2, 3],
+    );
+
+    await assertThrowsAsync(
+      () =>
+        AsyncIter.fromIterable([ok(1), err(new Error("failed"))]).tryCollect(),
+      Error,
+      "failed",
+    );
+  },
+});
+
+Deno.test({
+  name: "tryForEach iter",
+  async fn() {
+    const seen: number[] = [];
+
+    await assertThrowsAsync(
+      () =>
+        AsyncIter.fromIterable([ok(1), err(new Error("failed")), ok(2)])
+          .tryForEach((x) => {
+            seen.push(x);
+          }),
+      Error,
+      "failed",
+    );
+
+    assertEquals(seen, [1]);
+  },
+});
+
+/**
+ * Yields each item after waiting for its delay on the scheduler.
+ */
+async function* scheduledItems<T>(
+  scheduler: VirtualScheduler,
+  items: [number, T][],
+) {
+  for (const [ms, item] of items) {
+    await new Promise<void>((resolve) => scheduler.setTimeout(resolve, ms));
+    yield item;
+  }
+}
+
+Deno.test({
+  name: "interval iter",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const items = AsyncIter.interval(10, { scheduler }).take(3).collect();
+
+    await scheduler.advance(30);
+
+    assertEquals(await items, [10, 20, 30]);
+  },
+});
+
+Deno.test({
+  name: "throttle iter",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const items = new AsyncIter(sequentialIntegers(1, 3))
+      .throttle(10, { scheduler })
+      .mapSync((item) => [item, scheduler.now()])
+      .collect();
+
+    await scheduler.advance(30);
+
+    assertEquals(await items, [[1, 0], [2, 10], [3, 20]]);
+  },
+});
+
+Deno.test({
+  name: "debounce iter",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const items = new AsyncIter(scheduledItems(scheduler, [
+      [0, "a"],
+      [5, "b"],
+      [25, "c"],
+    ]))
+      .debounce(10, { scheduler })
+      .mapSync((item) => [item, scheduler.now()])
+      .collect();
+
+    await scheduler.advance(50);
+
+    assertEquals(await items, [["b", 15], ["c", 30]]);
+  },
+});
+
+Deno.test({
+  name: "sample iter",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const items = new AsyncIter(scheduledItems(scheduler, [
+      [2, "a"],
+      [3, "b"],
+      [7, "c"],
+      [33, "d"],
+    ]))
+      .sample(10, { scheduler })
+      .mapSync((item) => [item, scheduler.now()])
+      .collect();
+
+    await scheduler.advance(50);
+
+    assertEquals(await items, [["b", 10], ["c", 20]]);
+  },
+});
+
+Deno.test({
+  name: "delay iter",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const items = new AsyncIter(sequentialIntegers(1, 2))
+      .delay(10, { scheduler })
+      .mapSync((item) => [item, scheduler.now()])
+      .collect();
+
+    await scheduler.advance(20);
+
+    assertEquals(await items, [[1, 10], [2, 20]]);
+  },
+});
+
+Deno.test({
+  name: "timeout iter",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const seen: string[] = [];
+    const items = new AsyncIter(scheduledItems(scheduler, [
+      [5, "a"],
+      [30, "b"],
+    ]))
+      .timeout(10, { scheduler })
+      .forEach((item) => seen.push(item));
+    const assertion = assertThrowsAsync(() => items, TimeoutError);
+
+    await scheduler.advance(50);
+    await assertion;
+
+    assertEquals(seen, ["a"]);
+  },
+});
+
+Deno.test({
+  name: "chunksTimeout iter with scheduler",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const chunks = new AsyncIter(scheduledItems(scheduler, [
+      [0, 1],
+      [5, 2],
+      [10, 3],
+      [1, 4],
+    ]))
+      .chunksTimeout(3, 10, { scheduler })
+      .collect();
+
+    await scheduler.advance(30);
+
+    assertEquals(await chunks, [[1, 2], [3, 4]]);
+  },
+});
+
+Deno.test({
+  name: "takeUntilAborted iter",
+  async fn() {
+    const controller = new AbortController();
+    const [state, source] = trackedIntegers(1, Infinity);
+
+    const items = await new AsyncIter(source)
+      .takeUntilAborted(controller.signal)
+      .mapSync((x) => {
+        if (x == 3) controller.abort();
+        return x;
+      })
+      .collect();
+
+    assertEquals(items, [1, 2, 3]);
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "collect iter rejects when aborted",
+  async fn() {
+    const controller = new AbortController();
+    const [state, source] = trackedIntegers(1, Infinity);
+    const reason = new Error("cancelled");
+
+    const error = await assertThrowsAsync(() =>
+      new AsyncIter(source)
+        .mapSync((x) => {
+          if (x == 3) controller.abort(reason);
+          return x;
+        })
+        .collect({ signal: controller.signal })
+    );
+    await delay(1);
+
+    assertEquals(error, reason);
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "repeatWith iter rejects when aborted",
+  async fn() {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    let calls = 0;
+
+    const error = await assertThrowsAsync(() =>
+      AsyncIter.repeatWith((i) => {
+        calls++;
+        if (i == 5) controller.abort(reason);
+        return Promise.resolve(i);
+      }, { signal: controller.signal }).count()
+    );
+
+    assertEquals(error, reason);
+    assertEquals(calls, 6);
+  },
+});
+
+Deno.test({
+  name: "forEachConcurrent iter cancels pending work when aborted",
+  async fn() {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    const cancelled: number[] = [];
+
+    const processing = new AsyncIter(sequentialIntegers(1, Infinity))
+      .forEachConcurrent(
+        async (item, signal) => {
+          if (item == 3) controller.abort(reason);
+          await delay(10);
+          if (signal.aborted) cancelled.push(item);
+        },
+        3,
+        { signal: controller.signal },
+      );
+
+    const error = await assertThrowsAsync(() => processing);
+    await delay(20);
+
+    assertEquals(error, reason);
+    assertEquals(cancelled, [1, 2, 3]);
+  },
+});
+
+Deno.test({
+  name: "fromReadableStream iter",
+  async fn() {
+    const stream = new ReadableStream({
+      start(controller) {
+        [1, 2, 3].forEach((chunk) => controller.enqueue(chunk));
+        controller.close();
+      },
+    });
+
+    assertEquals(await AsyncIter.fromReadableStream(stream).collect(), [
+      1,
+      2,
+      3,
+    ]);
+  },
+});
+
+Deno.test({
+  name: "fromReadableStream iter cancels stream",
+  async fn() {
+    let cancelled = false;
+    const stream = new ReadableStream({
+      pull(controller) {
+        controller.enqueue(1);
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    assertEquals(await AsyncIter.fromReadableStream(stream).take(2).collect(), [
+      1,
+      1,
+    ]);
+    assertEquals(cancelled, true);
+  },
+});
+
+Deno.test({
+  name: "toReadableStream iter",
+  async fn() {
+    const [state, source] = trackedIntegers(1, 3);
+    const reader = new AsyncIter(source).toReadableStream().getReader();
+
+    await delay(1);
+    assertEquals(state.pulled, 0);
+
+    assertEquals(await reader.read(), { done: false, value: 1 });
+    assertEquals(state.pulled, 1);
+
+    await reader.cancel();
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "pipeTo iter",
+  async fn() {
+    const written: number[] = [];
+
+    await new AsyncIter(sequentialIntegers(1, 3)).pipeTo(
+      new WritableStream({
+        write(chunk) {
+          written.push(chunk);
+        },
+      }),
+    );
+
+    assertEquals(written, [1, 2, 3]);
+  },
+});
+
+Deno.test({
+  name: "fromEventTarget iter",
+  async fn() {
+    const target = new EventTarget();
+    const iter = AsyncIter.fromEventTarget<CustomEvent<number>>(target, "tick")
+      .mapSync((event) => event.detail)
+      .take(2);
+
+    const first = iter.next();
+    target.dispatchEvent(new CustomEvent("tick", { detail: 1 }));
+    target.dispatchEvent(new CustomEvent("tock", { detail: 2 }));
+    target.dispatchEvent(new CustomEvent("tick", { detail: 3 }));
+
+    assertEquals(await first, { done: false, value: 1 });
+    assertEquals(await iter.collect(), [3]);
+  },
+});
+
+Deno.test({
+  name: "channel iter",
+  async fn() {
+    const [sender, iter] = AsyncIter.channel<number>();
+
+    await sender.send(1);
+    await sender.send(2);
+    sender.close();
+
+    assertEquals(await sender.send(3), false);
+    assertEquals(await iter.collect(), [1, 2]);
+  },
+});
+
+Deno.test({
+  name: "channel iter blocks senders while full",
+  async fn() {
+    const [sender, iter] = AsyncIter.channel<number>({ capacity: 1 });
+    let sent = false;
+
+    await sender.send(1);
+    const second = sender.send(2).then(() => sent = true);
+    await delay(1);
+    assertEquals(sent, false);
+
+    assertEquals(await iter.next(), { done: false, value: 1 });
+    await second;
+    assertEquals(sent, true);
+    assertEquals(await iter.next(), { done: false, value: 2 });
+  },
+});
+
+Deno.test({
+  name: "channel iter overflow strategies",
+  async fn() {
+    const collectOverflowing = async (overflow: OverflowStrategy) => {
+      const [sender, iter] = AsyncIter.channel<number>({
+        capacity: 2,
+        overflow,
+      });
+
+      for (const item of [1, 2, 3]) await sender.send(item);
+      sender.close();
+
+      return iter.collect();
+    };
+
+    assertEquals(await collectOverflowing("dropOldest"), [2, 3]);
+    assertEquals(await collectOverflowing("dropNewest"), [1, 2]);
+    await assertThrowsAsync(
+      () => collectOverflowing("error"),
+      ChannelFullError,
+    );
+  },
+});
+
+Deno.test({
+  name: "channel iter reports dropped items as not sent",
+  async fn() {
+    const [sender] = AsyncIter.channel<number>({
+      capacity: 1,
+      overflow: "dropNewest",
+    });
+
+    assertEquals(await sender.send(1), true);
+    assertEquals(await sender.send(2), false);
+  },
+});
+
+Deno.test({
+  name: "channel iter fails after reading sent items",
+  async fn() {
+    const [sender, iter] = AsyncIter.channel<number>();
+
+    await sender.send(1);
+    sender.error(new Error("disconnected"));
+
+    assertEquals(await iter.next(), { done: false, value: 1 });
+    await assertThrowsAsync(() => iter.next(), Error, "disconnected");
+  },
+});
+
+Deno.test({
+  name: "closing channel iter unblocks senders",
+  async fn() {
+    const [sender, iter] = AsyncIter.channel<number>({ capacity: 1 });
+
+    await sender.send(1);
+    const blocked = sender.send(2);
+    await iter.return();
+
+    assertEquals(await blocked, false);
+    assertEquals(await iter.next(), { done: true, value: undefined });
+  },
+});
+
+Deno.test({
+  name: "fromCallback iter",
+  async fn() {
+    let listener: ((item: number) => void) | undefined;
+    const iter = AsyncIter.fromCallback<number>((sender) => {
+      listener = sender.send;
+      return () => listener = undefined;
+    });
+
+    assertEquals(listener, undefined);
+
+    const first = iter.next();
+    listener!(1);
+    listener!(2);
+
+    assertEquals(await first, { done: false, value: 1 });
+    assertEquals(await iter.take(1).collect(), [2]);
+    assertEquals(listener, undefined);
+  },
+});
+
+Deno.test({
+  name: "fromCallback iter unsubscribes when aborted while waiting",
+  async fn() {
+    const controller = new AbortController();
+    let subscribed = false;
+    const iter = AsyncIter.fromCallback<number>(() => {
+      subscribed = true;
+      return () => subscribed = false;
+    }).takeUntilAborted(controller.signal);
+
+    const pending = iter.next();
+    await delay(1);
+    assertEquals(subscribed, true);
+
+    controller.abort();
+    assertEquals(await pending, { done: true, value: undefined });
+    await delay(1);
+    assertEquals(subscribed, false);
+  },
+});
+
+Deno.test({
+  name: "find iter stops at first match",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const item = await new AsyncIter(source)
+      .find((item) => Promise.resolve(item % 3 === 0));
+
+    assertEquals(item, 3);
+    assertEquals(state, { pulled: 3, closed: true });
+    assertEquals(
+      await new AsyncIter(sequentialIntegers()).find((item) => item > 10),
+      undefined,
+    );
+  },
+});
+
+Deno.test({
+  name: "findMap iter",
+  async fn() {
+    const item = await new AsyncIter(sequentialIntegers())
+      .findMap((item) => item > 4 ? `${item}` : undefined);
+
+    assertEquals(item, "5");
+  },
+});
+
+Deno.test({
+  name: "position iter",
+  async fn() {
+    const iter = () => new AsyncIter(sequentialIntegers());
+
+    assertEquals(await iter().position((item) => item === 4), 3);
+    assertEquals(await iter().position((item) => item === 11), undefined);
+  },
+});
+
+Deno.test({
+  name: "any and all iter short circuit",
+  async fn() {
+    const [anyState, anySource] = trackedIntegers(1, Infinity);
+    const [allState, allSource] = trackedIntegers(1, Infinity);
+
+    assertEquals(
+      await new AsyncIter(anySource).any((item) => item === 2),
+      true,
+    );
+    assertEquals(anyState, { pulled: 2, closed: true });
+    assertEquals(
+      await new AsyncIter(allSource).all((item) => Promise.resolve(item < 3)),
+      false,
+    );
+    assertEquals(allState, { pulled: 3, closed: true });
+    assertEquals(
+      await new AsyncIter(sequentialIntegers(1, 0)).all(() => false),
+      true,
+    );
+  },
+});
+
+Deno.test({
+  name: "last and nth iter",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+
+    assertEquals(await new AsyncIter(sequentialIntegers()).last(), 10);
+    assertEquals(await new AsyncIter(source).nth(2), 3);
+    assertEquals(state, { pulled: 3, closed: true });
+    assertEquals(await new AsyncIter(sequentialIntegers()).nth(10), undefined);
+  },
+});
+
+Deno.test({
+  name: "min and max iter",
+  async fn() {
+    const words = () => AsyncIter.fromIterable(["bb", "a", "cc", "ddd", "e"]);
+    const byLength = (a: string, b: string) => a.length - b.length;
+
+    assertEquals(await words().minBy(byLength), "a");
+    assertEquals(await words().maxBy(byLength), "ddd");
+    assertEquals(await words().minByKey((word) => word.length), "a");
+    assertEquals(await words().maxByKey((word) => word.length % 3), "cc");
+
+    // Orders undefined before every number.
+    const undefinedFirst = (a?: number, b?: number) =>
+      a === undefined
+        ? (b === undefined ? 0 : -1)
+        : b === undefined
+        ? 1
+        : a - b;
+
+    assertEquals(
+      await AsyncIter.from([3, undefined, 5]).minBy(undefinedFirst),
+      undefined,
+    );
+    assertEquals(
+      await AsyncIter.from([undefined, 1]).maxBy((a, b) =>
+        undefinedFirst(b, a)
+      ),
+      undefined,
+    );
+  },
+});
+
+Deno.test({
+  name: "sum and product iter",
+  async fn() {
+    assertEquals(await new AsyncIter(sequentialIntegers()).sum(), 55);
+    assertEquals(await new AsyncIter(sequentialIntegers(1, 5)).product(), 120);
+  },
+});
+
+Deno.test({
+  name: "partition and unzip iter",
+  async fn() {
+    const [even, odd] = await new AsyncIter(sequentialIntegers(1, 5))
+      .partition((item) => Promise.resolve(item % 2 === 0));
+    const [numbers, strings] = await new AsyncIter(sequentialIntegers(1, 3))
+      .mapSync((item) => [item, `${item}`] as [number, string])
+      .unzip();
+
+    assertEquals([even, odd], [[2, 4], [1, 3, 5]]);
+    assertEquals([numbers, strings], [[1, 2, 3], ["1", "2", "3"]]);
+  },
+});
+
+Deno.test({
+  name: "fold and tryFold iter",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const folded = await new AsyncIter(sequentialIntegers(1, 4))
+      .fold("", (prev, item) => Promise.resolve(prev + item));
+    const tried = await new AsyncIter(source)
+      .tryFold(0, (prev, item) => item < 3 ? ok(prev + item) : err(prev));
+
+    assertEquals(folded, "1234");
+    assertEquals(tried, err(3));
+    assertEquals(state, { pulled: 3, closed: true });
+  },
+});
+
+Deno.test({
+  name: "compare iter",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const iter = (end: number) => new AsyncIter(sequentialIntegers(1, end));
+    const other = (...items: number[]) => AsyncIter.fromIterable(items);
+
+    assertEquals(await new AsyncIter(source).cmp(other(1, 2, 4)), -1);
+    assertEquals(state, { pulled: 3, closed: true });
+    assertEquals(await iter(3).cmp(other(1, 2)), 1);
+    assertEquals(await iter(3).eq(other(1, 2, 3)), true);
+    assertEquals(await iter(3).ne(other(1, 2)), true);
+    assertEquals(await iter(2).lt(other(1, 2, 3)), true);
+    assertEquals(await iter(3).le(other(1, 2, 3)), true);
+    assertEquals(await iter(3).gt(other(1, 3), (a, b) => b - a), true);
+    assertEquals(await iter(3).ge(other(1, 2, 4)), false);
+  },
+});
+
+Deno.test({
+  name: "compare iter rejects when aborted",
+  async fn() {
+    const controller = new AbortController();
+    const [state, source] = trackedIntegers(1, Infinity);
+    const reason = new Error("cancelled");
+
+    async function* stalled() {
+      yield 1;
+      await new Promise(() => {});
+    }
+
+    setTimeout(() => controller.abort(reason), 5);
+    const error = await assertThrowsAsync(() =>
+      new AsyncIter(source).eq(stalled(), { signal: controller.signal })
+    );
+    await delay(1);
+
+    assertEquals(error, reason);
+    assertEquals(state, { pulled: 2, closed: true });
+  },
+});
+
+Deno.test({
+  name: "takeWhile iter stops at first failure",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const items = await new AsyncIter(source)
+      .takeWhile((item) => Promise.resolve(item < 4))
+      .collect();
+    const syncItems = await new AsyncIter(sequentialIntegers())
+      .takeWhileSync((item) => item < 3)
+      .collect();
+
+    assertEquals(items, [1, 2, 3]);
+    assertEquals(state, { pulled: 4, closed: true });
+    assertEquals(syncItems, [1, 2]);
+  },
+});
+
+Deno.test({
+  name: "skipWhile iter",
+  async fn() {
+    const items = await AsyncIter.fromIterable([1, 2, 5, 1, 2])
+      .skipWhile((item) => Promise.resolve(item < 3))
+      .collect();
+    const syncItems = await AsyncIter.fromIterable([1, 2, 5, 1, 2])
+      .skipWhileSync((item) => item < 2)
+      .collect();
+
+    assertEquals(items, [5, 1, 2]);
+    assertEquals(syncItems, [2, 5, 1, 2]);
+  },
+});
+
+Deno.test({
+  name: "mapWhile iter",
+  async fn() {
+    const parse = (item: string) => {
+      const parsed = Number(item);
+      return Number.isNaN(parsed) ? undefined : parsed;
+    };
+    const items = await AsyncIter.fromIterable(["1", "2", "x", "4"])
+      .mapWhile((item) => Promise.resolve(parse(item)))
+      .collect();
+    const syncItems = await AsyncIter.fromIterable(["1", "x"])
+      .mapWhileSync(parse)
+      .collect();
+
+    assertEquals(items, [1, 2]);
+    assertEquals(syncItems, [1]);
+  },
+});
+
+Deno.test({
+  name: "scan iter",
+  async fn() {
+    const items = await new AsyncIter(sequentialIntegers())
+      .scan(
+        0,
+        (sum, item) =>
+          Promise.resolve(sum + item > 10 ? undefined : sum + item),
+      )
+      .collect();
+    const syncItems = await new AsyncIter(sequentialIntegers(1, 4))
+      .scanSync(1, (product, item) => product * item)
+      .collect();
+
+    assertEquals(items, [1, 3, 6, 10]);
+    assertEquals(syncItems, [1, 2, 6, 24]);
+  },
+});
+
+Deno.test({
+  name: "stepBy iter",
+  async fn() {
+    const items = await new AsyncIter(sequentialIntegers()).stepBy(3).collect();
+
+    assertEquals(items, [1, 4, 7, 10]);
+  },
+});
+
+Deno.test({
+  name: "inspect iter",
+  async fn() {
+    const seen: number[] = [];
+    const items = await new AsyncIter(sequentialIntegers(1, 3))
+      .inspect(async (item) => {
+        await delay(1);
+        seen.push(item);
+      })
+      .inspectSync((item) => seen.push(-item))
+      .collect();
+
+    assertEquals(seen, [1, -1, 2, -2, 3, -3]);
+    assertEquals(items, [1, 2, 3]);
+  },
+});
+
+Deno.test({
+  name: "flatMap iter",
+  async fn() {
+    const items = await new AsyncIter(sequentialIntegers(1, 3))
+      .flatMap((item) => Promise.resolve(Array(item).fill(item)))
+      .collect();
+    const syncItems = await new AsyncIter(sequentialIntegers(1, 2))
+      .flatMapSync((item) => sequentialIntegers(1, item))
+      .collect();
+
+    assertEquals(items, [1, 2, 2, 3, 3, 3]);
+    assertEquals(syncItems, [1, 1, 2]);
+  },
+});
+
+Deno.test({
+  name: "intersperse iter",
+  async fn() {
+    const items = await AsyncIter.fromIterable(["a", "b", "c"])
+      .intersperse(",")
+      .collect();
+
+    assertEquals(items, ["a", ",", "b", ",", "c"]);
+  },
+});
+
+Deno.test({
+  name: "fuse iter",
+  async fn() {
+    let calls = 0;
+    const flaky: AsyncIterator<number> = {
+      next: () =>
+        Promise.resolve(
+          ++calls === 2
+            ? { done: true, value: undefined }
+            : { done: false, value: calls },
+        ),
+    };
+    const iter = new AsyncIter(flaky).fuse();
+
+    assertEquals(await iter.next(), { done: false, value: 1 });
+    assertEquals((await iter.next()).done, true);
+    assertEquals((await iter.next()).done, true);
+    assertEquals(calls, 2);
+  },
+});
+
+Deno.test({
+  name: "chunkBy iter groups consecutive keys",
+  async fn() {
+    const lines = ["a:1", "a:2", "b:1", "a:3"];
+    const groups = await AsyncIter.fromIterable(lines)
+      .chunkBy((line) => Promise.resolve(line.split(":")[0]))
+      .collect();
+    const syncGroups = await AsyncIter.fromIterable(lines)
+      .chunkBySync((line) => line.split(":")[1])
+      .collect();
+
+    assertEquals(groups, [
+      ["a", ["a:1", "a:2"]],
+      ["b", ["b:1"]],
+      ["a", ["a:3"]],
+    ]);
+    assertEquals(syncGroups, [
+      ["1", ["a:1"]],
+      ["2", ["a:2"]],
+      ["1", ["b:1"]],
+      ["3", ["a:3"]],
+    ]);
+  },
+});
+
+Deno.test({
+  name: "dedup iter",
+  async fn() {
+    const iter = () => AsyncIter.fromIterable([1, 1, 2, 3, 3, 3, 1]);
+
+    assertEquals(await iter().dedup().collect(), [1, 2, 3, 1]);
+    assertEquals(
+      await iter().dedupBy((a, b) => Promise.resolve(b === a + 1)).collect(),
+      [1, 1, 3, 3, 3, 1],
+    );
+    assertEquals(
+      await iter().dedupBySync((a, b) => a === b).collect(),
+      [1, 2, 3, 1],
+    );
+    assertEquals(
+      await iter().dedupByKey((item) => Promise.resolve(item % 2)).collect(),
+      [1, 2, 3],
+    );
+    assertEquals(
+      await iter().dedupByKeySync((item) => item > 2).collect(),
+      [1, 3, 1],
+    );
+  },
+});
+
+Deno.test({
+  name: "unique iter",
+  async fn() {
+    const iter = () => AsyncIter.fromIterable([1, 2, 1, 3, 2, 4, 1]);
+
+    assertEquals(await iter().unique().collect(), [1, 2, 3, 4]);
+    assertEquals(
+      await iter().uniqueBy((item) => Promise.resolve(item % 3)).collect(),
+      [1, 2, 3],
+    );
+    assertEquals(
+      await iter().uniqueBySync((item) => item % 2).collect(),
+      [1, 2],
+    );
+    assertEquals(
+      await iter().unique({ capacity: 2 }).collect(),
+      [1, 2, 3, 2, 4, 1],
+    );
+  },
+});
+
+Deno.test({
+  name: "groupBy and countBy iter",
+  async fn() {
+    const iter = () => new AsyncIter(sequentialIntegers(1, 5));
+
+    assertEquals(
+      await iter().groupBy((item) =>
+        Promise.resolve(item % 2 ? "odd" : "even")
+      ),
+      new Map([["odd", [1, 3, 5]], ["even", [2, 4]]]),
+    );
+    assertEquals(
+      await iter().countBy((item) => item % 2 ? "odd" : "even"),
+      new Map([["odd", 3], ["even", 2]]),
+    );
+  },
+});
+
+Deno.test({
+  name: "kMerge iter",
+  async fn() {
+    const items = await AsyncIter.kMerge(
+      delayedItems([[10, 1], [0, 4], [0, 7]]),
+      AsyncIter.fromIterable([2, 5, 8]),
+      AsyncIter.fromIterable([0, 3, 6, 9]),
+    ).collect();
+
+    assertEquals(items, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  },
+});
+
+Deno.test({
+  name: "kMerge iter closes sources",
+  async fn() {
+    const [leftState, left] = trackedIntegers(1, Infinity);
+    const [rightState, right] = trackedIntegers(1, Infinity);
+    const items = await AsyncIter.kMerge(left, right).take(3).collect();
+
+    assertEquals(items, [1, 1, 2]);
+    assertEquals(leftState.closed && rightState.closed, true);
+  },
+});
+
+Deno.test({
+  name: "mergeSorted iter",
+  async fn() {
+    const items = await AsyncIter.fromIterable([1, 3, 5])
+      .mergeSorted(AsyncIter.fromIterable([2, 3, 4]))
+      .collect();
+
+    assertEquals(items, [1, 2, 3, 3, 4, 5]);
+  },
+});
+
+Deno.test({
+  name: "mergeJoinBy iter",
+  async fn() {
+    const users = [{ id: 1, name: "a" }, { id: 3, name: "c" }];
+    const orders = [{ user: 2 }, { user: 3 }];
+    const items = await AsyncIter.fromIterable(users)
+      .mergeJoinBy(
+        AsyncIter.fromIterable(orders),
+        (user, order) => user.id - order.user,
+      )
+      .collect();
+
+    assertEquals(items, [
+      { kind: "left", left: users[0] },
+      { kind: "right", right: orders[0] },
+      { kind: "both", left: users[1], right: orders[1] },
+    ]);
+  },
+});
+
+Deno.test({
+  name: "sorted set operations iter",
+  async fn() {
+    const iter = () => AsyncIter.fromIterable([1, 2, 4, 6]);
+    const other = () => AsyncIter.fromIterable([2, 3, 6, 7]);
+
+    assertEquals(
+      await iter().unionSorted(other()).collect(),
+      [1, 2, 3, 4, 6, 7],
+    );
+    assertEquals(await iter().intersectSorted(other()).collect(), [2, 6]);
+    assertEquals(await iter().diffSorted(other()).collect(), [1, 4]);
+  },
+});
+
+Deno.test({
+  name: "sorted set operations iter stop reading once they are decided",
+  async fn() {
+    const [intersectState, intersectOther] = trackedIntegers(1, Infinity);
+    const [diffState, diffOther] = trackedIntegers(1, Infinity);
+
+    assertEquals(
+      await AsyncIter.fromIterable([2, 4, 6])
+        .intersectSorted(intersectOther)
+        .collect(),
+      [2, 4, 6],
+    );
+    assertEquals(intersectState, { pulled: 7, closed: true });
+    assertEquals(
+      await AsyncIter.fromIterable([0, 2, 7]).diffSorted(diffOther).collect(),
+      [0],
+    );
+    assertEquals(diffState, { pulled: 8, closed: true });
+  },
+});
+
+Deno.test({
+  name: "collect iter runs in linear time",
+  async fn() {
+    const items = await new AsyncIter(sequentialIntegers(1, 100_000)).collect();
+
+    assertEquals(items.length, 100_000);
+    assertEquals(items[99_999], 100_000);
+  },
+});
+
+Deno.test({
+  name: "toMap, toSet and toObject iter",
+  async fn() {
+    const pairs = () =>
+      AsyncIter.fromIterable([["a", 1], ["b", 2], ["a", 3]] as [
+        string,
+        number,
+      ][]);
+
+    assertEquals(await pairs().toMap(), new Map([["a", 3], ["b", 2]]));
+    assertEquals(await pairs().toObject(), { a: 3, b: 2 });
+    assertEquals(
+      await AsyncIter.fromIterable([1, 2, 1]).toSet(),
+      new Set([1, 2]),
+    );
+  },
+});
+
+Deno.test({
+  name: "join iter",
+  async fn() {
+    assertEquals(
+      await new AsyncIter(sequentialIntegers(1, 3)).join(", "),
+      "1, 2, 3",
+    );
+    assertEquals(await new AsyncIter(sequentialIntegers(1, 3)).join(), "1,2,3");
+  },
+});
+
+Deno.test({
+  name: "collectInto iter",
+  async fn() {
+    const sum = await new AsyncIter(sequentialIntegers(1, 4)).collectInto({
+      create: () => 0,
+      add: (total, item) => total + item,
+    });
+
+    assertEquals(sum, 10);
+  },
+});
+
+Deno.test({
+  name: "tee iter",
+  async fn() {
+    const [left, right] = new AsyncIter(sequentialIntegers(1, 3)).tee();
+
+    assertEquals(await left.take(2).collect(), [1, 2]);
+    assertEquals(await right.collect(), [1, 2, 3]);
+  },
+});
+
+Deno.test({
+  name: "tee iter with bounded buffer waits for slowest branch",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const [left, right] = new AsyncIter(source).tee(2, { bufferSize: 2 });
+
+    const leftItems = left.take(4).collect();
+    await delay(10);
+    assertEquals(state.pulled, 2);
+
+    assertEquals(await right.take(4).collect(), [1, 2, 3, 4]);
+    assertEquals(await leftItems, [1, 2, 3, 4]);
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "share iter replays latest items to late subscribers",
+  async fn() {
+    const shared = new AsyncIter(sequentialIntegers(1, 5)).share({ replay: 2 });
+    const first = shared.subscribe();
+
+    for (const value of [1, 2, 3]) {
+      assertEquals(await first.next(), { done: false, value });
+    }
+
+    assertEquals(await shared.subscribe().collect(), [2, 3, 4, 5]);
+    assertEquals(await first.collect(), [4, 5]);
+  },
+});
+
+Deno.test({
+  name: "share iter closes source once every subscriber is closed",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const shared = new AsyncIter(source).share();
+    const first = shared.subscribe();
+    const second = shared.subscribe();
+
+    assertEquals(await first.take(2).collect(), [1, 2]);
+    assertEquals(state.closed, false);
+
+    assertEquals(await second.take(3).collect(), [1, 2, 3]);
+    assertEquals(state, { pulled: 3, closed: true });
+  },
+});
+
+Deno.test({
+  name: "decodeText iter",
+  async fn() {
+    const bytes = new TextEncoder().encode("héllo");
+    const items = await AsyncIter.from([bytes.slice(0, 2), bytes.slice(2)])
+      .decodeText()
+      .collect();
+
+    assertEquals(items.join(""), "héllo");
+  },
+});
+
+Deno.test({
+  name: "splitOn iter",
+  async fn() {
+    const items = await AsyncIter.from(["a::b:", ":c::", ":"])
+      .splitOn("::")
+      .collect();
+
+    assertEquals(items, ["a", "b", "c", ":"]);
+  },
+});
+
+Deno.test({
+  name: "lines iter",
+  async fn() {
+    const items = await AsyncIter.from(["one\r", "\ntwo\n\nthr", "ee"])
+      .lines()
+      .collect();
+
+    assertEquals(items, ["one", "two", "", "three"]);
+  },
+});
+
+Deno.test({
+  name: "parseNdjson iter",
+  async fn() {
+    const items = await AsyncIter.from(['{"a":1}\n\n{"a":', "2}\nnope\n"])
+      .parseNdjson<{ a: number }>()
+      .collect();
+
+    assertEquals(items.slice(0, 2), [ok({ a: 1 }), ok({ a: 2 })]);
+    assertEquals(items.length, 3);
+
+    const failure = items[2];
+    assertEquals(failure.ok ? undefined : failure.error.line, 4);
+  },
+});
+
+Deno.test({
+  name: "parseCsv iter",
+  async fn() {
+    const records = await AsyncIter.from([
+      'name,quote\r\nada,"say ""hi',
+      '"", then\r\nleave"\r\nbob,',
+    ]).parseCsv().collect();
+    const rows = await AsyncIter.from(["a;b\n", "c;d"])
+      .parseCsv({ header: false, separator: ";" })
+      .collect();
+    const named = await AsyncIter.from(["1,2\n"])
+      .parseCsv({ header: ["x", "y"] })
+      .collect();
+
+    assertEquals(records, [
+      { name: "ada", quote: 'say "hi", then\r\nleave' },
+      { name: "bob", quote: "" },
+    ]);
+    assertEquals(rows, [["a", "b"], ["c", "d"]]);
+    assertEquals(named, [{ x: "1", y: "2" }]);
+
+    const lineEnds = await AsyncIter.from(["a\r", "\nb,c\rd\n\re"])
+      .parseCsv({ header: false })
+      .collect();
+    assertEquals(lineEnds, [["a"], ["b", "c"], ["d"], ["e"]]);
+  },
+});
+
+Deno.test({
+  name: "parseCsv iter with invalid rows",
+  async fn() {
+    await assertThrowsAsync(
+      () => AsyncIter.from(["a,b\n1,2\n3\n"]).parseCsv().collect(),
+      ParseError,
+      "line 3: expected 2 fields but found 1",
+    );
+    await assertThrowsAsync(
+      () => AsyncIter.from(["a,b\r\n1,2\r3\r"]).parseCsv().collect(),
+      ParseError,
+      "line 3: expected 2 fields but found 1",
+    );
+    await assertThrowsAsync(
+      () => AsyncIter.from(['a\n"open']).parseCsv().collect(),
+      ParseError,
+      "line 2: unterminated quoted field",
+    );
+  },
+});
+
+Deno.test({
+  name: "toNdjson iter",
+  async fn() {
+    const text = await AsyncIter.from([{ a: 1 }, [2]]).toNdjson().join("");
+
+    assertEquals(text, '{"a":1}\n[2]\n');
+
+    for (const item of [undefined, () => {}, Symbol("a")]) {
+      await assertThrowsAsync(
+        () => AsyncIter.from([item]).toNdjson().collect(),
+        TypeError,
+        "can't be written as JSON",
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "toCsv iter",
+  async fn() {
+    const records = [{ name: "ada", quote: 'say "hi",\nthen' }, {
+      name: "bob",
+      quote: null,
+    }];
+    const text = await AsyncIter.from(records).toCsv().join("");
+
+    assertEquals(
+      text,
+      'name,quote\r\nada,"say ""hi"",\nthen"\r\nbob,\r\n',
+    );
+    assertEquals(
+      await AsyncIter.from([text]).parseCsv().collect(),
+      [{ name: "ada", quote: 'say "hi",\nthen' }, { name: "bob", quote: "" }],
+    );
+  },
+});
+
+Deno.test({
+  name: "instrument iter",
+  async fn() {
+    const events: [string, boolean][] = [];
+    const iter = AsyncIter.from([1, 2, 3])
+      .map((x) => Promise.resolve(x * 2))
+      .named("double")
+      .instrument({
+        next: (stage, done) => events.push([stage.name ?? stage.kind, done]),
+      });
+
+    assertEquals(await iter.collect(), [2, 4, 6]);
+    assertEquals(events.filter(([name]) => name === "double"), [
+      ["double", false],
+      ["double", false],
+      ["double", false],
+      ["double", true],
+    ]);
+    assertEquals(events.filter(([name]) => name === "from").length, 4);
+    assertEquals(iter.explain(), 'map "double"\n└─ from');
+  },
+});
@@ -1,3 +1,75 @@
+import { channel } from "./channel.ts";
+import type { ChannelOptions, Sender } from "./channel.ts";
+import { defaultCompare } from "./cmp.ts";
+import type { Comparator } from "./cmp.ts";
+import type { Collector } from "./collect.ts";
+import { LruSet } from "./lru.ts";
+import type { UniqueOptions } from "./lru.ts";
+import type { AsyncOperator } from "./operators/types.ts";
+import { err, ok } from "./result.ts";
+import type { AsyncRetryPolicy, Result } from "./result.ts";
+import { defaultSpawner, defaultWorkerCount } from "./runtime.deno.ts";
+import { compareHeads, Heap, sortedSide } from "./sorted.ts";
+import type { EitherOrBoth } from "./sorted.ts";
+import {
+  explainStage,
+  instrumentStages,
+  recordStage,
+  stageOf,
+} from "./stage.ts";
+import type { Instrumentation, Metrics, Stage } from "./stage.ts";
+import type { TeeOptions } from "./sync.ts";
+import { CsvParser, formatCsvRow, ParseError } from "./text.ts";
+import type { ParseCsvOptions, ToCsvOptions } from "./text.ts";
+import { sleep, systemScheduler, TimeoutError } from "./time.ts";
+import type { TimeOptions } from "./time.ts";
+import { WorkerPool } from "./workers.ts";
+import type { MapInWorkersOptions } from "./workers.ts";
+
+/**
+ * How {@link AsyncIter.selectWithStrategy} picks between iterators that both have items ready.
+ * - `"roundRobin"` takes turns between the iterators.
+ * - `"biased"` always prefers the current iterator over the other one.
+ */
+export type SelectStrategy = "roundRobin" | "biased";
+
+/**
+ * An iterable that is either synchronous or asynchronous, which methods taking other iterables
+ * accept interchangeably.
+ */
+export type MaybeAsyncIterable<T> = Iterable<T> | AsyncIterable<T>;
+
+/**
+ * Options for methods that can be cancelled.
+ */
+export interface AbortOptions {
+  /**
+   * Stops the method once aborted, closing the iterator and rejecting with the signal's reason.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for {@link AsyncIter.share}.
+ */
+export interface ShareOptions {
+  /**
+   * How many of the latest items are replayed to new subscribers, none if not provided.
+   */
+  replay?: number;
+}
+
+/**
+ * Options for {@link AsyncIter.forEachConcurrent}.
+ */
+export interface ForEachConcurrentOptions extends AbortOptions {
+  /**
+   * Keeps processing items after a failure and rejects with an {@link AggregateError} of every
+   * failure once all items have been processed, instead of rejecting with the first failure.
+   */
+  collectErrors?: boolean;
+}
+
 /**
  * A wrapper of an {@link AsyncIterator} that implements many useful methods.
  * Modelled after {@link https://docs.rs/futures/0.3.15/futures/stream/trait.StreamExt.html}.
@@ -15,24 +87,353 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
    * @returns a {@link AsyncIter} from the provided synchronous iterable.
    */
   static fromIterable<T>(iterable: Iterable<T>): AsyncIter<T> {
-    return new AsyncIter(async function* () {
-      yield* iterable;
-    }());
+    return recordStage(
+      new AsyncIter(async function* () {
+        yield* iterable;
+      }()),
+      "fromIterable",
+      iterable,
+    );
+  }
+
+  /**
+   * Converts any source of items into an {@link AsyncIter}, whether it's a synchronous iterable
+   * whose items may be promises, an async iterable, a {@link ReadableStream} or a single promise.
+   * @param source the source to read items from.
+   * @returns a {@link AsyncIter} of the items of the source.
+   */
+  static from<T>(source: ReadableStream<T>): AsyncIter<T>;
+  static from<T>(source: Promise<T>): AsyncIter<T>;
+  static from<T>(source: Iterable<T | Promise<T>>): AsyncIter<T>;
+  static from<T>(source: MaybeAsyncIterable<T>): AsyncIter<T>;
+  static from<T>(
+    source: MaybeAsyncIterable<T> | ReadableStream<T> | Promise<T>,
+  ): AsyncIter<T> {
+    if (
+      typeof ReadableStream !== "undefined" && source instanceof ReadableStream
+    ) {
+      return recordStage(AsyncIter.fromReadableStream(source), "from");
+    }
+
+    if (source instanceof Promise) {
+      return recordStage(
+        new AsyncIter(async function* () {
+          yield await source;
+        }()),
+        "from",
+      );
+    }
+
+    return recordStage(
+      new AsyncIter(iteratorOf(source as MaybeAsyncIterable<T>)),
+      "from",
+      source,
+    );
+  }
+
+  /**
+   * Converts a {@link ReadableStream} into an {@link AsyncIter}, cancelling the stream if the
+   * iterator is closed before the stream ends.
+   * @param stream the stream to read from.
+   * @returns a {@link AsyncIter} of the chunks read from the stream.
+   */
+  static fromReadableStream<T>(stream: ReadableStream<T>): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* () {
+        const reader = stream.getReader();
+        let done = false;
+
+        try {
+          while (true) {
+            const result = await reader.read();
+            if ((done = result.done)) return;
+            yield result.value;
+          }
+        } finally {
+          if (!done) await reader.cancel();
+          reader.releaseLock();
+        }
+      }()),
+      "fromReadableStream",
+    );
+  }
+
+  /**
+   * Creates a never ending iterator of the events dispatched to the target, buffering events
+   * until they are read. Listening starts once the first event is requested and stops once the
+   * iterator is closed.
+   * @param target the target the events are dispatched to.
+   * @param type the type of events to listen for.
+   * @returns a never ending {@link AsyncIter} of events.
+   */
+  static fromEventTarget<E extends Event = Event>(
+    target: EventTarget,
+    type: string,
+  ): AsyncIter<E> {
+    return recordStage(
+      AsyncIter.fromCallback<E>((sender) => {
+        const listener = (event: Event) => sender.send(event as E);
+
+        target.addEventListener(type, listener);
+        return () => target.removeEventListener(type, listener);
+      }),
+      "fromEventTarget",
+    );
+  }
+
+  /**
+   * Creates a channel to push items into an iterator from the outside, such as from callbacks or
+   * messages. Items are buffered until they are read, up to the channel's capacity.
+   * @param options the capacity of the channel and what to do when it's full.
+   * @returns the {@link Sender} to push items with and the {@link AsyncIter} reading them.
+   */
+  static channel<T>(options: ChannelOptions = {}): [Sender<T>, AsyncIter<T>] {
+    const [sender, receiver] = channel<T>(options);
+    return [sender, new AsyncIter(receiver)];
+  }
+
+  /**
+   * Creates an iterator of the items pushed by a callback based API. Subscribing happens once the
+   * first item is requested and unsubscribing once the iterator is closed.
+   * @param subscribe a function starting to push items through the provided {@link Sender},
+   * returning a function that stops it.
+   * @param options the capacity of the buffer and what to do when it's full.
+   * @returns a {@link AsyncIter} of the pushed items.
+   */
+  static fromCallback<T>(
+    subscribe: (sender: Sender<T>) => () => void,
+    options: ChannelOptions = {},
+  ): AsyncIter<T> {
+    const [sender, receiver] = channel<T>(options);
+    let state: "idle" | "subscribed" | "closed" = "idle";
+    let unsubscribe = () => {};
+
+    const close = () => {
+      if (state === "subscribed") unsubscribe();
+      state = "closed";
+    };
+
+    // Not an async generator, as closing one waits for the item being waited on to arrive first.
+    return recordStage(
+      new AsyncIter<T>({
+        next: async () => {
+          if (state === "idle") {
+            state = "subscribed";
+
+            try {
+              unsubscribe = subscribe(sender);
+            } catch (error) {
+              sender.error(error);
+            }
+          }
+
+          try {
+            const result = await receiver.next();
+            if (result.done) close();
+            return result;
+          } catch (error) {
+            close();
+            throw error;
+          }
+        },
+        return: (value?: unknown) => {
+          close();
+          // Ends the item being waited on, if any, as the channel is closed.
+          return receiver.return!(value);
+        },
+      }),
+      "fromCallback",
+    );
   }
 
   /**
    * Creates a never ending iterator with values from the provided function's output.
    * @param func a function responsible for populating the string.
+   * @param options a signal that stops the iterator, rejecting with the signal's reason.
    * @returns a never ending {@link AsyncIter}.
    */
-  static repeatWith<T>(func: (index: number) => Promise<T>): AsyncIter<T> {
-    return new AsyncIter(async function* () {
+  static repeatWith<T>(
+    func: (index: number) => Promise<T>,
+    options: AbortOptions = {},
+  ): AsyncIter<T> {
+    const iter = async function* () {
       let index = 0;
 
       while (true) {
         yield await func(index++);
       }
-    }());
+    }();
+
+    return recordStage(
+      new AsyncIter(
+        options.signal ? untilAborted(iter, options.signal, true) : iter,
+      ),
+      "repeatWith",
+    );
+  }
+
+  /**
+   * Creates a never ending iterator that yields how many milliseconds have passed every n
+   * milliseconds, starting after the first n milliseconds.
+   * @param ms how many milliseconds between items.
+   * @param options the scheduler used to wait.
+   * @returns a never ending {@link AsyncIter}.
+   */
+  static interval(ms: number, options: TimeOptions = {}): AsyncIter<number> {
+    const scheduler = options.scheduler ?? systemScheduler;
+
+    return recordStage(
+      new AsyncIter(async function* () {
+        const start = scheduler.now();
+
+        // Wait relative to the start rather than the last item so slow consumers don't drift.
+        for (let tick = 1;; tick++) {
+          await sleep(scheduler, start + tick * ms - scheduler.now())[0];
+          yield tick * ms;
+        }
+      }()),
+      "interval",
+    );
+  }
+
+  /**
+   * Merges all provided iterables into one {@link AsyncIter} that yields items as soon as any of
+   * the iterables produces them, taking turns between iterables that have items ready.
+   * @param sources iterables to be read from concurrently.
+   * @returns a {@link AsyncIter} of the items of every iterable as they arrive.
+   */
+  static merge<T>(...sources: MaybeAsyncIterable<T>[]): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(
+        interleave(AsyncIter.fromIterable(sources), Infinity, "roundRobin"),
+      ),
+      "merge",
+      ...sources,
+    );
+  }
+
+  /**
+   * Merges the iterables produced by the provided iterable into one {@link AsyncIter} that yields
+   * items as soon as any of them produces them, like {@link AsyncIter.merge} for a stream of
+   * iterables. The same as {@link AsyncIter.flattenUnordered} on an {@link AsyncIter} of iterables.
+   * @param sources an iterable of the iterables to be read from concurrently.
+   * @param limit how many iterables can be read from at once, all of them if not provided.
+   * @returns a {@link AsyncIter} of the items of every iterable as they arrive.
+   */
+  static mergeAll<T>(
+    sources: MaybeAsyncIterable<MaybeAsyncIterable<T>>,
+    limit?: number,
+  ): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(
+        interleave(iteratorOf(sources), limit ?? Infinity, "roundRobin"),
+      ),
+      "mergeAll",
+      sources,
+    );
+  }
+
+  /**
+   * Reads from whichever of the provided iterables produces an item first and closes the rest.
+   * @param sources iterables racing to produce the first item.
+   * @returns a {@link AsyncIter} of the items of the first iterable to produce an item.
+   */
+  static race<T>(...sources: MaybeAsyncIterable<T>[]): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* () {
+        const iterators = sources.map((source) => iteratorOf(source));
+        const firsts = iterators.map((iterator, index) =>
+          iterator.next().then((result) => [index, result] as const)
+        );
+
+        let winner: AsyncIterator<T> | undefined;
+        let done = false;
+
+        try {
+          const [index, first] = await Promise.race(firsts);
+          winner = iterators[index];
+
+          for (const iterator of iterators) {
+            if (iterator !== winner) closeInBackground(iterator);
+          }
+
+          let result = first;
+
+          while (!result.done) {
+            yield result.value;
+            result = await winner.next();
+          }
+
+          done = true;
+        } finally {
+          // If nothing won the race then every iterable is still running.
+          for (const iterator of winner ? [winner] : iterators) {
+            if (!done) closeInBackground(iterator);
+          }
+        }
+      }()),
+      "race",
+      ...sources,
+    );
+  }
+
+  /**
+   * Merges iterables that are each sorted in ascending order into one sorted {@link AsyncIter},
+   * holding only the next item of every iterable at a time.
+   * @param sources sorted iterables to be merged.
+   * @returns a sorted {@link AsyncIter} of the items of every iterable.
+   */
+  static kMerge<T>(...sources: MaybeAsyncIterable<T>[]): AsyncIter<T> {
+    return recordStage(
+      AsyncIter.kMergeBy(defaultCompare, ...sources),
+      "kMerge",
+      ...sources,
+    );
+  }
+
+  /**
+   * Merges iterables that are each sorted by the comparator into one sorted {@link AsyncIter},
+   * holding only the next item of every iterable at a time. Equal items are yielded in the order of
+   * the iterables they came from.
+   * @param compare a function that orders two items.
+   * @param sources sorted iterables to be merged.
+   * @returns a sorted {@link AsyncIter} of the items of every iterable.
+   */
+  static kMergeBy<T>(
+    compare: Comparator<T>,
+    ...sources: MaybeAsyncIterable<T>[]
+  ): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* () {
+        const iterators = sources.map((source) => iteratorOf(source));
+        const done = iterators.map(() => false);
+        const heads = new Heap(compareHeads(compare));
+
+        const pull = async (source: number) => {
+          const result = await iterators[source].next();
+          done[source] = result.done ?? true;
+          if (!result.done) heads.push({ value: result.value, source });
+        };
+
+        try {
+          await Promise.all(iterators.map((_, source) => pull(source)));
+
+          while (heads.size > 0) {
+            const head = heads.pop()!;
+            yield head.value;
+            await pull(head.source);
+          }
+        } finally {
+          await Promise.all(
+            iterators.map((iterator, source) =>
+              done[source] ? undefined : iterator.return?.()
+            ),
+          );
+        }
+      }()),
+      "kMergeBy",
+      ...sources,
+    );
   }
 
   /**
@@ -41,11 +442,15 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
    * @returns a {@link AsyncIter} where all elements have passed the predicate.
    */
   filter(predicate: (item: T) => Promise<boolean>): AsyncIter<T> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      for await (const item of iter) {
-        if (await predicate(item)) yield item;
-      }
-    }(this));
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          if (await predicate(item)) yield item;
+        }
+      }(this)),
+      "filter",
+      this,
+    );
   }
 
   /**
@@ -54,11 +459,15 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
    * @returns a {@link AsyncIter} where all elements have passed the predicate.
    */
   filterSync(predicate: (item: T) => boolean): AsyncIter<T> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      for await (const item of iter) {
-        if (predicate(item)) yield item;
-      }
-    }(this));
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          if (predicate(item)) yield item;
+        }
+      }(this)),
+      "filterSync",
+      this,
+    );
   }
 
   /**
@@ -71,12 +480,16 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
   filterMap<Output>(
     func: (item: T) => Promise<Output | undefined>,
   ): AsyncIter<Output> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      for await (const item of iter) {
-        const mapped = await func(item);
-        if (mapped !== undefined) yield mapped;
-      }
-    }(this));
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          const mapped = await func(item);
+          if (mapped !== undefined) yield mapped;
+        }
+      }(this)),
+      "filterMap",
+      this,
+    );
   }
 
   /**
@@ -89,12 +502,16 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
   filterMapSync<Output>(
     func: (item: T) => Output | undefined,
   ): AsyncIter<Output> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      for await (const item of iter) {
-        const mapped = func(item);
-        if (mapped !== undefined) yield mapped;
-      }
-    }(this));
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          const mapped = func(item);
+          if (mapped !== undefined) yield mapped;
+        }
+      }(this)),
+      "filterMapSync",
+      this,
+    );
   }
 
   /**
@@ -106,11 +523,15 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
   map<Output>(
     func: (item: T) => Promise<Output>,
   ): AsyncIter<Output> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      for await (const item of iter) {
-        yield await func(item);
-      }
-    }(this));
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          yield await func(item);
+        }
+      }(this)),
+      "map",
+      this,
+    );
   }
 
   /**
@@ -122,11 +543,100 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
   mapSync<Output>(
     func: (item: T) => Output,
   ): AsyncIter<Output> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      for await (const item of iter) {
-        yield func(item);
-      }
-    }(this));
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          yield func(item);
+        }
+      }(this)),
+      "mapSync",
+      this,
+    );
+  }
+
+  /**
+   * Maps the items in the iterator with the provided async function, running up to n calls at
+   * once. Outputs are yielded in the same order as the items they were mapped from.
+   * @param func a function to map items.
+   * @param limit how many calls to the function can be in flight at once.
+   * @returns a {@link AsyncIter} where all elements have been mapped by the provided function.
+   */
+  mapConcurrent<Output>(
+    func: (item: T) => Promise<Output>,
+    limit: number,
+  ): AsyncIter<Output> {
+    return recordStage(
+      this.mapSync((item) => () => func(item)).buffered(limit),
+      "mapConcurrent",
+      this,
+    );
+  }
+
+  /**
+   * Maps the items in the iterator with a function exported by a module, running the function in a
+   * pool of workers so it doesn't block this thread. Items and outputs are cloned between threads,
+   * except for the buffers in them or directly inside them, which are moved instead and can't be
+   * used by the sender afterwards.
+   * @param moduleSpecifier the module exporting the function, relative specifiers are resolved from
+   * the worker so absolute URLs should be used.
+   * @param exportName the name the function is exported as.
+   * @param options how many workers to start, how many items can be in flight and whether outputs
+   * are yielded in order.
+   * @returns a {@link AsyncIter} of the outputs, throwing a {@link WorkerError} if mapping an item
+   * failed or a worker crashed.
+   */
+  mapInWorkers<Output>(
+    moduleSpecifier: string | URL,
+    exportName: string,
+    options: MapInWorkersOptions = {},
+  ): AsyncIter<Output> {
+    const workers = options.workers ?? defaultWorkerCount();
+    const limit = options.limit ?? workers * 2;
+    if (!(limit >= 1)) throw new RangeError("limit must be at least 1");
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        const pool = new WorkerPool<T, Output>(
+          options.spawn ?? defaultSpawner,
+          moduleSpecifier,
+          exportName,
+          workers,
+        );
+
+        try {
+          const tasks = iter.mapSync((item) => () => pool.run(item));
+
+          yield* options.ordered ?? true
+            ? tasks.buffered(limit)
+            : tasks.bufferUnordered(limit);
+        } finally {
+          pool.terminate();
+        }
+      }(this)),
+      "mapInWorkers",
+      this,
+    );
+  }
+
+  /**
+   * Processes all items with the provided async function, running up to n calls at once, and
+   * yields all outputs that were defined in the same order as the items they were mapped from.
+   * @param func the function to map an item that returns an output if it should be yielded or
+   * undefined if it shouldn't.
+   * @param limit how many calls to the function can be in flight at once.
+   * @returns a {@link AsyncIter} where all elements have been mapped and filtered through the
+   * function.
+   */
+  filterMapConcurrent<Output>(
+    func: (item: T) => Promise<Output | undefined>,
+    limit: number,
+  ): AsyncIter<Output> {
+    return recordStage(
+      this.mapConcurrent(func, limit)
+        .filterMapSync((mapped) => mapped),
+      "filterMapConcurrent",
+      this,
+    );
   }
 
   /**
@@ -134,14 +644,55 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
    * @param next iterables to be appended onto the current one.
    * @returns all iterables chained onto the current {@link AsyncIter}.
    */
-  chain(...next: AsyncIterable<T>[]): AsyncIter<T> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      yield* iter;
+  chain(...next: MaybeAsyncIterable<T>[]): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        yield* iter;
 
-      for (const nextIterator of next) {
-        yield* nextIterator;
-      }
-    }(this));
+        for (const nextIterator of next) {
+          yield* nextIterator;
+        }
+      }(this)),
+      "chain",
+      this,
+      ...next,
+    );
+  }
+
+  /**
+   * Merges both iterators into one {@link AsyncIter} that yields items as soon as either of them
+   * produces one, alternating between them when both have items ready.
+   * @param other the iterator to be read from alongside the current one.
+   * @returns a {@link AsyncIter} of the items of both iterators as they arrive.
+   */
+  select(other: MaybeAsyncIterable<T>): AsyncIter<T> {
+    return recordStage(
+      this.selectWithStrategy(other, "roundRobin"),
+      "select",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Merges both iterators into one {@link AsyncIter} that yields items as soon as either of them
+   * produces one, using the strategy to pick between them when both have items ready.
+   * @param other the iterator to be read from alongside the current one.
+   * @param strategy how to pick between the iterators when both have items ready.
+   * @returns a {@link AsyncIter} of the items of both iterators as they arrive.
+   */
+  selectWithStrategy(
+    other: MaybeAsyncIterable<T>,
+    strategy: SelectStrategy,
+  ): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(
+        interleave(AsyncIter.fromIterable([this, other]), Infinity, strategy),
+      ),
+      "selectWithStrategy",
+      this,
+      other,
+    );
   }
 
   /**
@@ -151,30 +702,233 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
    * iterator.
    * @returns a zipped {@link AsyncIter}
    */
-  zip<R>(right: AsyncIterable<R>): AsyncIter<[T, R]> {
-    const rightIter = right[Symbol.asyncIterator]();
+  zip<R>(right: MaybeAsyncIterable<R>): AsyncIter<[T, R]> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        const rightIter = iteratorOf(right);
+        let leftDone = false;
+        let rightDone = false;
 
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      let done = false;
+        try {
+          while (true) {
+            const [leftResult, rightResult] = await Promise.all([
+              iter.next(),
+              rightIter.next(),
+            ]);
 
-      while (!done) {
-        const [leftResult, rightResult] = await Promise.all([
-          iter.next(),
-          rightIter.next(),
-        ]);
+            // According to MDN docs done is always present, so we'll just fallback to true.
+            leftDone = leftResult.done ?? true;
+            rightDone = rightResult.done ?? true;
 
-        // According to MDN docs done is always present, so we'll just fallback to true.
-        done ||= leftResult.done ?? true;
-        done ||= rightResult.done ?? true;
+            if (leftDone || rightDone) return;
 
-        if (done) break;
+            yield [
+              leftResult.value,
+              rightResult.value,
+            ] as [T, R];
+          }
+        } finally {
+          // Close whichever side still has items, we won't be reading from it anymore.
+          if (!leftDone) await iter.return();
+          if (!rightDone) await rightIter.return?.();
+        }
+      }(this)),
+      "zip",
+      this,
+      right,
+    );
+  }
 
-        yield [
-          leftResult.value,
-          rightResult.value,
-        ] as [T, R];
-      }
-    }(this));
+  /**
+   * Merges this iterator with another, both sorted by the comparator, into one sorted iterator.
+   * @param other the sorted iterable to merge with.
+   * @param compare a function that orders two items.
+   * @returns a sorted {@link AsyncIter} of the items of both iterators.
+   */
+  mergeSorted(
+    other: MaybeAsyncIterable<T>,
+    compare: Comparator<T> = defaultCompare,
+  ): AsyncIter<T> {
+    return recordStage(
+      AsyncIter.kMergeBy(compare, this, other),
+      "mergeSorted",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Aligns this iterator with another, both sorted by the comparator, pairing up items that
+   * compare equal and tagging items that only one of the iterators has.
+   * @param other the sorted iterable to join with.
+   * @param compare a function that orders an item of this iterator against one of the other.
+   * @returns a sorted {@link AsyncIter} of left, right and both items.
+   */
+  mergeJoinBy<R>(
+    other: MaybeAsyncIterable<R>,
+    compare: (left: T, right: R) => number,
+  ): AsyncIter<EitherOrBoth<T, R>> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        const leftSide = sortedSide(iter);
+        const rightSide = sortedSide(iteratorOf(other));
+
+        try {
+          let [left, right] = await Promise.all([
+            leftSide.next(),
+            rightSide.next(),
+          ]);
+
+          while (!left.done || !right.done) {
+            const order = left.done
+              ? 1
+              : right.done
+              ? -1
+              : compare(left.value, right.value);
+
+            if (order < 0) {
+              yield { kind: "left", left: left.value as T };
+              left = await leftSide.next();
+            } else if (order > 0) {
+              yield { kind: "right", right: right.value as R };
+              right = await rightSide.next();
+            } else {
+              yield {
+                kind: "both",
+                left: left.value as T,
+                right: right.value as R,
+              };
+              [left, right] = await Promise.all([
+                leftSide.next(),
+                rightSide.next(),
+              ]);
+            }
+          }
+        } finally {
+          // Close whichever side still has items, we won't be reading from it anymore.
+          await leftSide.close();
+          await rightSide.close();
+        }
+      }(this)),
+      "mergeJoinBy",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Yields every item that is in either sorted iterator, yielding items both have only once.
+   * @param other the sorted iterable to combine with.
+   * @param compare a function that orders two items.
+   * @returns a sorted {@link AsyncIter} of the union of both iterators.
+   */
+  unionSorted(
+    other: MaybeAsyncIterable<T>,
+    compare: Comparator<T> = defaultCompare,
+  ): AsyncIter<T> {
+    return recordStage(
+      this.mergeJoinBy(other, compare)
+        .mapSync((item) => item.kind === "right" ? item.right : item.left),
+      "unionSorted",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Yields the items of this sorted iterator that are also in the other.
+   * @param other the sorted iterable to intersect with.
+   * @param compare a function that orders two items.
+   * @returns a sorted {@link AsyncIter} of the intersection of both iterators.
+   */
+  intersectSorted(
+    other: MaybeAsyncIterable<T>,
+    compare: Comparator<T> = defaultCompare,
+  ): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        const leftSide = sortedSide(iter);
+        const rightSide = sortedSide(iteratorOf(other));
+
+        try {
+          let [left, right] = await Promise.all([
+            leftSide.next(),
+            rightSide.next(),
+          ]);
+
+          // Nothing can be in both once either iterator has ended.
+          while (!left.done && !right.done) {
+            const order = compare(left.value, right.value);
+
+            if (order < 0) {
+              left = await leftSide.next();
+            } else if (order > 0) {
+              right = await rightSide.next();
+            } else {
+              yield left.value;
+              [left, right] = await Promise.all([
+                leftSide.next(),
+                rightSide.next(),
+              ]);
+            }
+          }
+        } finally {
+          await leftSide.close();
+          await rightSide.close();
+        }
+      }(this)),
+      "intersectSorted",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Yields the items of this sorted iterator that aren't in the other.
+   * @param other the sorted iterable of items to leave out.
+   * @param compare a function that orders two items.
+   * @returns a sorted {@link AsyncIter} of the difference of both iterators.
+   */
+  diffSorted(
+    other: MaybeAsyncIterable<T>,
+    compare: Comparator<T> = defaultCompare,
+  ): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        const leftSide = sortedSide(iter);
+        const rightSide = sortedSide(iteratorOf(other));
+
+        try {
+          let [left, right] = await Promise.all([
+            leftSide.next(),
+            rightSide.next(),
+          ]);
+
+          // The rest of the other iterator doesn't matter once this one has ended.
+          while (!left.done) {
+            const order = right.done ? -1 : compare(left.value, right.value);
+
+            if (order < 0) {
+              yield left.value;
+              left = await leftSide.next();
+            } else if (order > 0) {
+              right = await rightSide.next();
+            } else {
+              [left, right] = await Promise.all([
+                leftSide.next(),
+                rightSide.next(),
+              ]);
+            }
+          }
+        } finally {
+          await leftSide.close();
+          await rightSide.close();
+        }
+      }(this)),
+      "diffSorted",
+      this,
+      other,
+    );
   }
 
   /**
@@ -182,13 +936,17 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
    * @returns a {@link AsyncIter} with items and their index.
    */
   enumerate(): AsyncIter<[number, T]> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      let index = 0;
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let index = 0;
 
-      for await (const item of iter) {
-        yield [index++, item] as [number, T];
-      }
-    }(this));
+        for await (const item of iter) {
+          yield [index++, item] as [number, T];
+        }
+      }(this)),
+      "enumerate",
+      this,
+    );
   }
 
   /**
@@ -197,14 +955,24 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
    * @returns a limited {@link AsyncIter}.
    */
   take(limit: number): AsyncIter<T> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      let count = 0;
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        if (limit <= 0) {
+          await iter.return();
+          return;
+        }
 
-      for await (const item of iter) {
-        if (++count > limit) break;
-        yield item;
-      }
-    }(this));
+        let count = 0;
+
+        for await (const item of iter) {
+          yield item;
+          // Stop before pulling the next item so the source isn't advanced past the limit.
+          if (++count >= limit) break;
+        }
+      }(this)),
+      "take",
+      this,
+    );
   }
 
   /**
@@ -213,122 +981,2793 @@ export class AsyncIter<T> implements AsyncIterator<T>, AsyncIterable<T> {
    * @returns a {@link AsyncIter} that skipped n elements.
    */
   skip(items: number): AsyncIter<T> {
-    return new AsyncIter(async function* (iter: AsyncIter<T>) {
-      let count = 0;
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let count = 0;
 
-      for await (const item of iter) {
-        if (++count <= items) continue;
-        yield item;
-      }
-    }(this));
+        for await (const item of iter) {
+          if (++count <= items) continue;
+          yield item;
+        }
+      }(this)),
+      "skip",
+      this,
+    );
   }
 
   /**
-   * Flattens the iterator of elements by one level.
-   * @returns a {@link Iter} that yields all items in arrays yielded by the iterator.
+   * Yields items while they pass the predicate, ending the iterator at the first item that
+   * doesn't.
+   * @param predicate if the iterator should keep yielding items.
+   * @returns a {@link AsyncIter} of the leading items that passed the predicate.
    */
-  flat<A extends Array<E>, E>(
-    this: AsyncIter<A>,
-  ): AsyncIter<A extends (infer U)[] ? U : never> {
-    return new AsyncIter(async function* (iter: AsyncIter<A>) {
-      for await (const item of iter) {
-        // deno-lint-ignore no-explicit-any
-        yield* item as unknown as any;
-      }
-    }(this));
+  takeWhile(predicate: (item: T) => Promise<boolean>): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          if (!await predicate(item)) return;
+          yield item;
+        }
+      }(this)),
+      "takeWhile",
+      this,
+    );
   }
 
   /**
-   * Iterates through the entire iterator and collects the items as an array.
-   * @returns all the items in the iterator as an array.
+   * Yields items while they pass the predicate, ending the iterator at the first item that
+   * doesn't.
+   * @param predicate if the iterator should keep yielding items.
+   * @returns a {@link AsyncIter} of the leading items that passed the predicate.
    */
-  collect(): Promise<T[]> {
-    return this.reduce<T[]>((prev, curr) => [...prev, curr], []);
+  takeWhileSync(predicate: (item: T) => boolean): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          if (!predicate(item)) return;
+          yield item;
+        }
+      }(this)),
+      "takeWhileSync",
+      this,
+    );
   }
 
   /**
-   * Iterates through the entire iterator reducing all items to one value.
-   * @param func a function executed on each item of the iterator with the previous value supplied.
-   * @param initial the initial value to be passed to the reducer function.
-   * @returns the iterator reduced down to a single value.
+   * Skips items while they pass the predicate, yielding every item from the first one that
+   * doesn't.
+   * @param predicate if the item should be skipped.
+   * @returns a {@link AsyncIter} without the leading items that passed the predicate.
    */
-  async reduce<X>(func: (prev: X, item: T) => X, initial: X): Promise<X> {
-    let result = initial;
+  skipWhile(predicate: (item: T) => Promise<boolean>): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let skipping = true;
 
-    for await (const item of this) {
-      result = func(result, item);
-    }
+        for await (const item of iter) {
+          if (skipping && await predicate(item)) continue;
+          skipping = false;
+          yield item;
+        }
+      }(this)),
+      "skipWhile",
+      this,
+    );
+  }
 
-    return result;
+  /**
+   * Skips items while they pass the predicate, yielding every item from the first one that
+   * doesn't.
+   * @param predicate if the item should be skipped.
+   * @returns a {@link AsyncIter} without the leading items that passed the predicate.
+   */
+  skipWhileSync(predicate: (item: T) => boolean): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let skipping = true;
+
+        for await (const item of iter) {
+          if (skipping && predicate(item)) continue;
+          skipping = false;
+          yield item;
+        }
+      }(this)),
+      "skipWhileSync",
+      this,
+    );
   }
 
   /**
-   * @returns the number of items the {@link AsyncIter} will yield.
+   * Maps items with the provided function until it returns undefined, ending the iterator there.
+   * @param func a function to map items that returns undefined when the iterator should end.
+   * @returns a {@link AsyncIter} of the mapped items up to the first undefined output.
    */
-  async count(): Promise<number> {
-    let count = 0;
+  mapWhile<Output>(
+    func: (item: T) => Promise<Output | undefined>,
+  ): AsyncIter<Output> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          const mapped = await func(item);
+          if (mapped === undefined) return;
+          yield mapped;
+        }
+      }(this)),
+      "mapWhile",
+      this,
+    );
+  }
 
-    for await (const _ of this) {
-      count++;
-    }
+  /**
+   * Maps items with the provided function until it returns undefined, ending the iterator there.
+   * @param func a function to map items that returns undefined when the iterator should end.
+   * @returns a {@link AsyncIter} of the mapped items up to the first undefined output.
+   */
+  mapWhileSync<Output>(
+    func: (item: T) => Output | undefined,
+  ): AsyncIter<Output> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          const mapped = func(item);
+          if (mapped === undefined) return;
+          yield mapped;
+        }
+      }(this)),
+      "mapWhileSync",
+      this,
+    );
+  }
 
-    return count;
+  /**
+   * Yields every intermediate state of folding the items, ending the iterator once the function
+   * returns undefined.
+   * @param initial the state before the first item.
+   * @param func a function that returns the next state from the previous state and the item.
+   * @returns a {@link AsyncIter} of states.
+   */
+  scan<X>(
+    initial: X,
+    func: (state: X, item: T) => Promise<X | undefined>,
+  ): AsyncIter<X> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let state = initial;
+
+        for await (const item of iter) {
+          const next = await func(state, item);
+          if (next === undefined) return;
+          yield state = next;
+        }
+      }(this)),
+      "scan",
+      this,
+    );
   }
 
   /**
-   * Executes the provided function for every item in the iterator.
-   * @param func a function that accepts items.
+   * Yields every intermediate state of folding the items, ending the iterator once the function
+   * returns undefined.
+   * @param initial the state before the first item.
+   * @param func a function that returns the next state from the previous state and the item.
+   * @returns a {@link AsyncIter} of states.
    */
-  async forEach(func: (item: T) => void): Promise<void> {
-    for await (const item of this) {
-      func(item);
-    }
+  scanSync<X>(
+    initial: X,
+    func: (state: X, item: T) => X | undefined,
+  ): AsyncIter<X> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let state = initial;
+
+        for await (const item of iter) {
+          const next = func(state, item);
+          if (next === undefined) return;
+          yield state = next;
+        }
+      }(this)),
+      "scanSync",
+      this,
+    );
   }
 
   /**
-   * Executes the provided function for every item in the iterator concurrently with an optional
-   * concurrency limit.
+   * Yields the first item and then every nth item after it.
+   * @param step the distance between yielded items.
+   * @returns a {@link AsyncIter} that steps over the items.
+   */
+  stepBy(step: number): AsyncIter<T> {
+    if (step < 1) throw new RangeError("step must be at least 1");
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let index = 0;
+
+        for await (const item of iter) {
+          if (index++ % step === 0) yield item;
+        }
+      }(this)),
+      "stepBy",
+      this,
+    );
+  }
+
+  /**
+   * Calls the provided function with every item before passing it on, waiting for it to finish,
+   * which is useful for debugging a pipeline.
    * @param func an async function that accepts items.
-   * @param limit how many promises can be processed concurrently.
+   * @returns a {@link AsyncIter} of the same items.
    */
-  async forEachConcurrent(
-    func: (item: T) => Promise<void>,
-    limit?: number,
-  ): Promise<void> {
-    const items = await this.collect();
+  inspect(func: (item: T) => Promise<void>): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          await func(item);
+          yield item;
+        }
+      }(this)),
+      "inspect",
+      this,
+    );
+  }
 
-    // Process all our items if no limit was specified or we can fit all of our items within the
-    // limit.
-    if (limit === undefined || limit >= items.length) {
-      await Promise.all(items.map(func));
-      return;
-    }
+  /**
+   * Calls the provided function with every item before passing it on, which is useful for
+   * debugging a pipeline.
+   * @param func a function that accepts items.
+   * @returns a {@link AsyncIter} of the same items.
+   */
+  inspectSync(func: (item: T) => void): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          func(item);
+          yield item;
+        }
+      }(this)),
+      "inspectSync",
+      this,
+    );
+  }
 
-    // Takes an item off the front of the items list and awaits it then repeats until items is
-    // empty.
-    async function process() {
-      while (true) {
-        const item = items.shift();
-        if (item === undefined) return;
-        await func(item);
-      }
-    }
+  /**
+   * Maps every item to an iterable and flattens the results by one level.
+   * @param func an async function that maps an item to an iterable of outputs.
+   * @returns a {@link AsyncIter} of all the outputs.
+   */
+  flatMap<Output>(
+    func: (item: T) => Promise<Iterable<Output> | AsyncIterable<Output>>,
+  ): AsyncIter<Output> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          yield* await func(item);
+        }
+      }(this)),
+      "flatMap",
+      this,
+    );
+  }
 
-    const processors = [...new Array(limit)].map(process);
-    await Promise.all(processors);
+  /**
+   * Maps every item to an iterable and flattens the results by one level.
+   * @param func a function that maps an item to an iterable of outputs.
+   * @returns a {@link AsyncIter} of all the outputs.
+   */
+  flatMapSync<Output>(
+    func: (item: T) => Iterable<Output> | AsyncIterable<Output>,
+  ): AsyncIter<Output> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          yield* func(item);
+        }
+      }(this)),
+      "flatMapSync",
+      this,
+    );
   }
 
   /**
-   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/asyncIterator
+   * Places the separator between every pair of adjacent items.
+   * @param separator the item to yield between items.
+   * @returns a {@link AsyncIter} of the items with separators between them.
    */
-  next(): Promise<IteratorResult<T>> {
-    return this.#inner.next();
+  intersperse(separator: T): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let first = true;
+
+        for await (const item of iter) {
+          if (!first) yield separator;
+          first = false;
+          yield item;
+        }
+      }(this)),
+      "intersperse",
+      this,
+    );
   }
 
   /**
-   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/asyncIterator
+   * Creates an iterator that keeps returning done once the underlying iterator has finished,
+   * even if the underlying iterator would yield more items afterwards.
+   * @returns a fused {@link AsyncIter}.
    */
-  [Symbol.asyncIterator](): AsyncIterator<T, unknown, undefined> {
-    return this;
+  fuse(): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        yield* iter;
+      }(this)),
+      "fuse",
+      this,
+    );
+  }
+
+  /**
+   * Passes the iterator through the standalone operators in order, which can also be custom
+   * functions taking and returning an iterable.
+   * @param operators the {@link AsyncOperator}s to apply, each receiving the output of the one before it.
+   * @returns a {@link AsyncIter} of the items the last operator yields.
+   */
+  pipe(): AsyncIter<T>;
+  pipe<A>(
+    op1: AsyncOperator<T, A>,
+  ): AsyncIter<A>;
+  pipe<A, B>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+  ): AsyncIter<B>;
+  pipe<A, B, C>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+    op3: AsyncOperator<B, C>,
+  ): AsyncIter<C>;
+  pipe<A, B, C, D>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+    op3: AsyncOperator<B, C>,
+    op4: AsyncOperator<C, D>,
+  ): AsyncIter<D>;
+  pipe<A, B, C, D, E>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+    op3: AsyncOperator<B, C>,
+    op4: AsyncOperator<C, D>,
+    op5: AsyncOperator<D, E>,
+  ): AsyncIter<E>;
+  pipe<A, B, C, D, E, F>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+    op3: AsyncOperator<B, C>,
+    op4: AsyncOperator<C, D>,
+    op5: AsyncOperator<D, E>,
+    op6: AsyncOperator<E, F>,
+  ): AsyncIter<F>;
+  pipe<A, B, C, D, E, F, G>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+    op3: AsyncOperator<B, C>,
+    op4: AsyncOperator<C, D>,
+    op5: AsyncOperator<D, E>,
+    op6: AsyncOperator<E, F>,
+    op7: AsyncOperator<F, G>,
+  ): AsyncIter<G>;
+  pipe<A, B, C, D, E, F, G, H>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+    op3: AsyncOperator<B, C>,
+    op4: AsyncOperator<C, D>,
+    op5: AsyncOperator<D, E>,
+    op6: AsyncOperator<E, F>,
+    op7: AsyncOperator<F, G>,
+    op8: AsyncOperator<G, H>,
+  ): AsyncIter<H>;
+  pipe<A, B, C, D, E, F, G, H, I>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+    op3: AsyncOperator<B, C>,
+    op4: AsyncOperator<C, D>,
+    op5: AsyncOperator<D, E>,
+    op6: AsyncOperator<E, F>,
+    op7: AsyncOperator<F, G>,
+    op8: AsyncOperator<G, H>,
+    op9: AsyncOperator<H, I>,
+  ): AsyncIter<I>;
+  pipe<A, B, C, D, E, F, G, H, I, J>(
+    op1: AsyncOperator<T, A>,
+    op2: AsyncOperator<A, B>,
+    op3: AsyncOperator<B, C>,
+    op4: AsyncOperator<C, D>,
+    op5: AsyncOperator<D, E>,
+    op6: AsyncOperator<E, F>,
+    op7: AsyncOperator<F, G>,
+    op8: AsyncOperator<G, H>,
+    op9: AsyncOperator<H, I>,
+    op10: AsyncOperator<I, J>,
+  ): AsyncIter<J>;
+  pipe(...operators: AsyncOperator<never, unknown>[]): AsyncIter<unknown>;
+  pipe(...operators: AsyncOperator<never, unknown>[]): AsyncIter<unknown> {
+    // Each operator receives the output of the one before it, which the overloads check.
+    const output = operators.reduce<AsyncIterable<unknown>>(
+      (source, operator) =>
+        (operator as AsyncOperator<unknown, unknown>)(source),
+      this,
+    );
+
+    return recordStage(
+      new AsyncIter(output[Symbol.asyncIterator]()),
+      "pipe",
+      this,
+    );
+  }
+
+  /**
+   * Names the iterator, telling it apart from other iterators created by the same method in
+   * {@link AsyncIter.explain} and to an {@link Instrumentation}.
+   * @param name the name of the iterator.
+   * @returns the same {@link AsyncIter}.
+   */
+  named(name: string): this {
+    stageOf(this).name = name;
+    return this;
+  }
+
+  /**
+   * @returns the {@link Stage} of the iterator, describing the methods that created it and the
+   * iterators upstream of it.
+   */
+  stage(): Stage {
+    return stageOf(this);
+  }
+
+  /**
+   * Observes the items produced by the iterator and every iterator upstream of it. Iterators
+   * without instrumentation aren't slowed down at all, so it should be attached before reading.
+   * @param instrumentation notified of every item produced, such as {@link Metrics}.
+   * @returns the same {@link AsyncIter}.
+   */
+  instrument(instrumentation: Instrumentation): this {
+    instrumentStages(this, instrumentation);
+    return this;
+  }
+
+  /**
+   * Describes the pipeline leading up to the iterator as a tree, with the iterator at the root and
+   * the iterators it reads from below it.
+   * @param metrics what was measured for every iterator, which is shown next to it.
+   * @returns a line for every iterator in the pipeline.
+   */
+  explain(metrics?: Metrics): string {
+    return explainStage(stageOf(this), metrics);
+  }
+
+  /**
+   * Groups the items of the iterator into arrays of n items, the last array may be shorter if
+   * there aren't enough items left to fill it.
+   * @param size how many items are in each chunk.
+   * @returns a {@link AsyncIter} of chunks of items.
+   */
+  chunks(size: number): AsyncIter<T[]> {
+    if (size < 1) throw new RangeError("chunk size must be at least 1");
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let chunk: T[] = [];
+
+        for await (const item of iter) {
+          chunk.push(item);
+
+          if (chunk.length >= size) {
+            yield chunk;
+            chunk = [];
+          }
+        }
+
+        if (chunk.length > 0) yield chunk;
+      }(this)),
+      "chunks",
+      this,
+    );
+  }
+
+  /**
+   * Groups the items of the iterator into arrays of exactly n items, any items left over that
+   * couldn't fill a chunk are available from {@link ChunksExactAsyncIter.remainder}.
+   * @param size how many items are in each chunk.
+   * @returns a {@link ChunksExactAsyncIter} of chunks of items.
+   */
+  chunksExact(size: number): ChunksExactAsyncIter<T> {
+    if (size < 1) throw new RangeError("chunk size must be at least 1");
+
+    return recordStage(
+      new ChunksExactAsyncIter(this, size),
+      "chunksExact",
+      this,
+    );
+  }
+
+  /**
+   * Groups the items of the iterator into arrays of up to n items, yielding a shorter chunk when
+   * the time window that started with its first item ends before the chunk is full.
+   * Modelled after {@link https://docs.rs/tokio-stream/0.1/tokio_stream/trait.StreamExt.html#method.chunks_timeout}.
+   * @param size the most items in each chunk.
+   * @param ms how long to wait for a chunk to fill after its first item arrived.
+   * @param options the scheduler used to wait.
+   * @returns a {@link AsyncIter} of chunks of items.
+   */
+  chunksTimeout(
+    size: number,
+    ms: number,
+    options: TimeOptions = {},
+  ): AsyncIter<T[]> {
+    if (size < 1) throw new RangeError("chunk size must be at least 1");
+
+    const scheduler = options.scheduler ?? systemScheduler;
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        // A request for an item that didn't resolve before the previous chunk's window ended.
+        let pending: Promise<IteratorResult<T>> | undefined;
+        let done = false;
+
+        try {
+          while (!done) {
+            const first = await (pending ?? iter.next());
+            pending = undefined;
+
+            if (first.done) {
+              done = true;
+              return;
+            }
+
+            const chunk = [first.value];
+            const [deadline, cancel] = sleep(scheduler, ms);
+
+            try {
+              while (chunk.length < size) {
+                pending ??= iter.next();
+
+                const result = await Promise.race([pending, deadline]);
+                if (result === undefined) break;
+
+                pending = undefined;
+
+                if (result.done) {
+                  done = true;
+                  break;
+                }
+
+                chunk.push(result.value);
+              }
+            } finally {
+              cancel();
+            }
+
+            yield chunk;
+          }
+        } finally {
+          if (!done) closeInBackground(iter);
+        }
+      }(this)),
+      "chunksTimeout",
+      this,
+    );
+  }
+
+  /**
+   * Groups the items that are already available into arrays of up to n items, without waiting
+   * for more items once the iterator has to wait on its source.
+   * Modelled after {@link https://docs.rs/futures/0.3.15/futures/stream/trait.StreamExt.html#method.ready_chunks}.
+   * @param size the most items in each chunk.
+   * @returns a {@link AsyncIter} of chunks of items.
+   */
+  readyChunks(size: number): AsyncIter<T[]> {
+    return recordStage(this.chunksTimeout(size, 0), "readyChunks", this);
+  }
+
+  /**
+   * Creates sliding windows of n consecutive items over the iterator, each window overlapping the
+   * previous one by all but one item.
+   * @param size how many items are in each window.
+   * @returns a {@link AsyncIter} of windows of items.
+   */
+  windows(size: number): AsyncIter<T[]> {
+    if (size < 1) throw new RangeError("window size must be at least 1");
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        const window: T[] = [];
+
+        for await (const item of iter) {
+          window.push(item);
+          if (window.length > size) window.shift();
+          if (window.length === size) yield [...window];
+        }
+      }(this)),
+      "windows",
+      this,
+    );
+  }
+
+  /**
+   * Groups runs of consecutive items with the same key, yielding each group once the key changes.
+   * Items with the same key that aren't next to each other end up in separate groups.
+   * @param key an async function that extracts the key to group items by.
+   * @returns a {@link AsyncIter} of keys and the consecutive items that share them.
+   */
+  chunkBy<K>(key: (item: T) => Promise<K>): AsyncIter<[K, T[]]> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let group: [K, T[]] | undefined;
+
+        for await (const item of iter) {
+          const itemKey = await key(item);
+
+          if (group && group[0] === itemKey) {
+            group[1].push(item);
+            continue;
+          }
+
+          if (group) yield group;
+          group = [itemKey, [item]];
+        }
+
+        if (group) yield group;
+      }(this)),
+      "chunkBy",
+      this,
+    );
+  }
+
+  /**
+   * Groups runs of consecutive items with the same key, yielding each group once the key changes.
+   * Items with the same key that aren't next to each other end up in separate groups.
+   * @param key a function that extracts the key to group items by.
+   * @returns a {@link AsyncIter} of keys and the consecutive items that share them.
+   */
+  chunkBySync<K>(key: (item: T) => K): AsyncIter<[K, T[]]> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let group: [K, T[]] | undefined;
+
+        for await (const item of iter) {
+          const itemKey = key(item);
+
+          if (group && group[0] === itemKey) {
+            group[1].push(item);
+            continue;
+          }
+
+          if (group) yield group;
+          group = [itemKey, [item]];
+        }
+
+        if (group) yield group;
+      }(this)),
+      "chunkBySync",
+      this,
+    );
+  }
+
+  /**
+   * Removes consecutive repeated items, keeping the first of each run.
+   * @returns a {@link AsyncIter} without consecutive duplicates.
+   */
+  dedup(): AsyncIter<T> {
+    return recordStage(this.dedupBySync((a, b) => a === b), "dedup", this);
+  }
+
+  /**
+   * Removes consecutive items that the function considers the same, keeping the first of each run.
+   * @param same an async function that decides if an item is a duplicate of the last yielded
+   * item.
+   * @returns a {@link AsyncIter} without consecutive duplicates.
+   */
+  dedupBy(same: (previous: T, item: T) => Promise<boolean>): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let first = true;
+        let previous: T;
+
+        for await (const item of iter) {
+          if (!first && await same(previous!, item)) continue;
+
+          yield item;
+          first = false;
+          previous = item;
+        }
+      }(this)),
+      "dedupBy",
+      this,
+    );
+  }
+
+  /**
+   * Removes consecutive items that the function considers the same, keeping the first of each run.
+   * @param same a function that decides if an item is a duplicate of the last yielded item.
+   * @returns a {@link AsyncIter} without consecutive duplicates.
+   */
+  dedupBySync(same: (previous: T, item: T) => boolean): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let first = true;
+        let previous: T;
+
+        for await (const item of iter) {
+          if (!first && same(previous!, item)) continue;
+
+          yield item;
+          first = false;
+          previous = item;
+        }
+      }(this)),
+      "dedupBySync",
+      this,
+    );
+  }
+
+  /**
+   * Removes consecutive items with the same key, keeping the first of each run.
+   * @param key an async function that extracts the key to compare items by.
+   * @returns a {@link AsyncIter} without consecutive duplicates.
+   */
+  dedupByKey<K>(key: (item: T) => Promise<K>): AsyncIter<T> {
+    return recordStage(
+      this.map(async (item) => [await key(item), item] as const)
+        .dedupBySync(([a], [b]) => a === b)
+        .mapSync(([, item]) => item),
+      "dedupByKey",
+      this,
+    );
+  }
+
+  /**
+   * Removes consecutive items with the same key, keeping the first of each run.
+   * @param key a function that extracts the key to compare items by.
+   * @returns a {@link AsyncIter} without consecutive duplicates.
+   */
+  dedupByKeySync<K>(key: (item: T) => K): AsyncIter<T> {
+    return recordStage(
+      this.mapSync((item) => [key(item), item] as const)
+        .dedupBySync(([a], [b]) => a === b)
+        .mapSync(([, item]) => item),
+      "dedupByKeySync",
+      this,
+    );
+  }
+
+  /**
+   * Removes every item that has already been yielded.
+   * @param options how many distinct items are remembered.
+   * @returns a {@link AsyncIter} of distinct items.
+   */
+  unique(options: UniqueOptions = {}): AsyncIter<T> {
+    return recordStage(
+      this.uniqueBySync((item) => item, options),
+      "unique",
+      this,
+    );
+  }
+
+  /**
+   * Removes every item whose key has already been yielded.
+   * @param key an async function that extracts the key to compare items by.
+   * @param options how many distinct keys are remembered.
+   * @returns a {@link AsyncIter} of items with distinct keys.
+   */
+  uniqueBy<K>(
+    key: (item: T) => Promise<K>,
+    options: UniqueOptions = {},
+  ): AsyncIter<T> {
+    const seen = new LruSet<K>(options.capacity);
+    return recordStage(
+      this.filter(async (item) => seen.add(await key(item))),
+      "uniqueBy",
+      this,
+    );
+  }
+
+  /**
+   * Removes every item whose key has already been yielded.
+   * @param key a function that extracts the key to compare items by.
+   * @param options how many distinct keys are remembered.
+   * @returns a {@link AsyncIter} of items with distinct keys.
+   */
+  uniqueBySync<K>(
+    key: (item: T) => K,
+    options: UniqueOptions = {},
+  ): AsyncIter<T> {
+    const seen = new LruSet<K>(options.capacity);
+    return recordStage(
+      this.filterSync((item) => seen.add(key(item))),
+      "uniqueBySync",
+      this,
+    );
+  }
+
+  /**
+   * Slows the iterator down so that items are yielded at least n milliseconds apart, without
+   * dropping any of them.
+   * Modelled after {@link https://docs.rs/tokio-stream/0.1/tokio_stream/trait.StreamExt.html#method.throttle}.
+   * @param ms the least milliseconds between items.
+   * @param options the scheduler used to wait.
+   * @returns a throttled {@link AsyncIter}.
+   */
+  throttle(ms: number, options: TimeOptions = {}): AsyncIter<T> {
+    const scheduler = options.scheduler ?? systemScheduler;
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let last = -Infinity;
+
+        for await (const item of iter) {
+          const wait = last + ms - scheduler.now();
+          if (wait > 0) await sleep(scheduler, wait)[0];
+
+          last = scheduler.now();
+          yield item;
+        }
+      }(this)),
+      "throttle",
+      this,
+    );
+  }
+
+  /**
+   * Yields an item only once n milliseconds have passed without a newer item arriving, dropping
+   * the items that were replaced. The latest item is yielded right away when the iterator ends.
+   * @param ms how many milliseconds without a newer item before an item is yielded.
+   * @param options the scheduler used to wait.
+   * @returns a debounced {@link AsyncIter}.
+   */
+  debounce(ms: number, options: TimeOptions = {}): AsyncIter<T> {
+    const scheduler = options.scheduler ?? systemScheduler;
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let pending: Promise<IteratorResult<T>> | undefined;
+        let latest: { item: T } | undefined;
+        let done = false;
+
+        try {
+          while (true) {
+            pending ??= iter.next();
+
+            if (latest === undefined) {
+              const result = await pending;
+              pending = undefined;
+
+              if ((done = result.done ?? true)) return;
+              latest = { item: result.value };
+              continue;
+            }
+
+            const [quiet, cancel] = sleep(scheduler, ms);
+            const result = await Promise.race([pending, quiet]);
+            cancel();
+
+            if (result === undefined) {
+              const { item } = latest;
+              latest = undefined;
+              yield item;
+              continue;
+            }
+
+            pending = undefined;
+
+            if ((done = result.done ?? true)) {
+              yield latest.item;
+              return;
+            }
+
+            latest = { item: result.value };
+          }
+        } finally {
+          if (!done) closeInBackground(iter);
+        }
+      }(this)),
+      "debounce",
+      this,
+    );
+  }
+
+  /**
+   * Reads items as they arrive and yields the latest one every n milliseconds, skipping periods
+   * where no new item arrived. Items that arrived after the last period ended are dropped.
+   * @param ms how many milliseconds are in each period.
+   * @param options the scheduler used to wait.
+   * @returns a sampled {@link AsyncIter}.
+   */
+  sample(ms: number, options: TimeOptions = {}): AsyncIter<T> {
+    const scheduler = options.scheduler ?? systemScheduler;
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let pending: Promise<IteratorResult<T>> | undefined;
+        let latest: { item: T } | undefined;
+        let done = false;
+        let [tick, cancel] = sleep(scheduler, ms);
+
+        try {
+          while (true) {
+            pending ??= iter.next();
+
+            const result = await Promise.race([pending, tick]);
+
+            if (result === undefined) {
+              [tick, cancel] = sleep(scheduler, ms);
+
+              if (latest !== undefined) {
+                const { item } = latest;
+                latest = undefined;
+                yield item;
+              }
+
+              continue;
+            }
+
+            pending = undefined;
+            if ((done = result.done ?? true)) return;
+            latest = { item: result.value };
+          }
+        } finally {
+          cancel();
+          if (!done) closeInBackground(iter);
+        }
+      }(this)),
+      "sample",
+      this,
+    );
+  }
+
+  /**
+   * Waits n milliseconds after each item arrives before yielding it.
+   * @param ms how many milliseconds to hold each item for.
+   * @param options the scheduler used to wait.
+   * @returns a delayed {@link AsyncIter}.
+   */
+  delay(ms: number, options: TimeOptions = {}): AsyncIter<T> {
+    const scheduler = options.scheduler ?? systemScheduler;
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        for await (const item of iter) {
+          await sleep(scheduler, ms)[0];
+          yield item;
+        }
+      }(this)),
+      "delay",
+      this,
+    );
+  }
+
+  /**
+   * Fails with a {@link TimeoutError} when the next item takes longer than n milliseconds to
+   * arrive, closing the iterator.
+   * Modelled after {@link https://docs.rs/tokio-stream/0.1/tokio_stream/trait.StreamExt.html#method.timeout}.
+   * @param ms how many milliseconds to wait for each item.
+   * @param options the scheduler used to wait.
+   * @returns a {@link AsyncIter} that fails when an item is late.
+   */
+  timeout(ms: number, options: TimeOptions = {}): AsyncIter<T> {
+    const scheduler = options.scheduler ?? systemScheduler;
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let done = false;
+
+        try {
+          while (true) {
+            const [deadline, cancel] = sleep(scheduler, ms);
+            const result = await Promise.race([iter.next(), deadline]);
+            cancel();
+
+            if (result === undefined) throw new TimeoutError(ms);
+            if ((done = result.done ?? true)) return;
+
+            yield result.value;
+          }
+        } finally {
+          if (!done) closeInBackground(iter);
+        }
+      }(this)),
+      "timeout",
+      this,
+    );
+  }
+
+  /**
+   * Yields items until the signal is aborted, then ends the iterator and closes its source.
+   * @param signal the signal that ends the iterator.
+   * @returns a {@link AsyncIter} that ends once the signal is aborted.
+   */
+  takeUntilAborted(signal: AbortSignal): AsyncIter<T> {
+    return recordStage(
+      new AsyncIter(untilAborted(this, signal, false)),
+      "takeUntilAborted",
+      this,
+    );
+  }
+
+  /**
+   * Flattens the iterator of iterables by one level, reading every iterable to the end before
+   * moving on to the next one.
+   * @returns a {@link AsyncIter} that yields all items in the iterables yielded by the iterator.
+   */
+  flat<Output>(
+    this: AsyncIter<MaybeAsyncIterable<Output>>,
+  ): AsyncIter<Output> {
+    return recordStage(
+      new AsyncIter(
+        async function* (iter: AsyncIter<MaybeAsyncIterable<Output>>) {
+          for await (const item of iter) {
+            yield* item;
+          }
+        }(this),
+      ),
+      "flat",
+      this,
+    );
+  }
+
+  /**
+   * Starts the tasks yielded by the iterator, keeping up to n of them in flight, and yields their
+   * results in the same order as the tasks were yielded. Tasks are functions returning a promise
+   * rather than promises themselves, as promises start eagerly and async generators await any
+   * promise they yield.
+   * @param limit how many tasks can be in flight at once.
+   * @returns a {@link AsyncIter} of the results of each task in order.
+   */
+  buffered<Output>(
+    this: AsyncIter<() => Promise<Output>>,
+    limit: number,
+  ): AsyncIter<Output> {
+    if (!(limit >= 1)) throw new RangeError("limit must be at least 1");
+
+    return recordStage(
+      new AsyncIter(
+        async function* (iter: AsyncIter<() => Promise<Output>>) {
+          const queue: Promise<Output>[] = [];
+          let done = false;
+
+          try {
+            while (true) {
+              // Pull tasks lazily so we never have more than the limit in flight at once.
+              while (!done && queue.length < limit) {
+                const result = await iter.next();
+
+                if (result.done) {
+                  done = true;
+                } else {
+                  queue.push(spawn(result.value));
+                }
+              }
+
+              const next = queue.shift();
+              if (next === undefined) return;
+              yield await next;
+            }
+          } finally {
+            if (!done) await iter.return();
+          }
+        }(this),
+      ),
+      "buffered",
+      this,
+    );
+  }
+
+  /**
+   * Starts the tasks yielded by the iterator, keeping up to n of them in flight, and yields their
+   * results in the order the tasks complete.
+   * @param limit how many tasks can be in flight at once.
+   * @returns a {@link AsyncIter} of the results of each task as they complete.
+   */
+  bufferUnordered<Output>(
+    this: AsyncIter<() => Promise<Output>>,
+    limit: number,
+  ): AsyncIter<Output> {
+    if (!(limit >= 1)) throw new RangeError("limit must be at least 1");
+
+    return recordStage(
+      new AsyncIter(
+        async function* (iter: AsyncIter<() => Promise<Output>>) {
+          const inFlight = new Map<number, Promise<[number, Output]>>();
+          let nextId = 0;
+          let done = false;
+
+          try {
+            while (true) {
+              while (!done && inFlight.size < limit) {
+                const result = await iter.next();
+
+                if (result.done) {
+                  done = true;
+                } else {
+                  const id = nextId++;
+                  const task = result.value;
+                  inFlight.set(
+                    id,
+                    spawn(async () => [id, await task()] as [number, Output]),
+                  );
+                }
+              }
+
+              if (inFlight.size === 0) return;
+
+              const [id, output] = await Promise.race(inFlight.values());
+              inFlight.delete(id);
+              yield output;
+            }
+          } finally {
+            if (!done) await iter.return();
+          }
+        }(this),
+      ),
+      "bufferUnordered",
+      this,
+    );
+  }
+
+  /**
+   * Decodes the chunks of bytes into text, handling characters that are split across chunks.
+   * @param encoding the encoding of the bytes, any label {@link TextDecoder} accepts.
+   * @returns a {@link AsyncIter} of chunks of text.
+   */
+  decodeText(
+    this: AsyncIter<Uint8Array>,
+    encoding = "utf-8",
+  ): AsyncIter<string> {
+    const decoder = new TextDecoder(encoding);
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<Uint8Array>) {
+        for await (const chunk of iter) {
+          const text = decoder.decode(chunk, { stream: true });
+          if (text) yield text;
+        }
+
+        const rest = decoder.decode();
+        if (rest) yield rest;
+      }(this)),
+      "decodeText",
+      this,
+    );
+  }
+
+  /**
+   * Splits the chunks of text on the delimiter, joining the pieces of text that are split across
+   * chunks. Text after the last delimiter is only yielded if it isn't empty.
+   * @param delimiter the text between items.
+   * @returns a {@link AsyncIter} of the text between delimiters.
+   */
+  splitOn(this: AsyncIter<string>, delimiter: string): AsyncIter<string> {
+    if (delimiter === "") throw new RangeError("delimiter must not be empty");
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<string>) {
+        let buffer = "";
+
+        for await (const chunk of iter) {
+          // Only look at the text that could hold a delimiter the last chunk didn't.
+          let index = Math.max(buffer.length - delimiter.length + 1, 0);
+          let start = 0;
+          buffer += chunk;
+
+          while ((index = buffer.indexOf(delimiter, index)) !== -1) {
+            yield buffer.slice(start, index);
+            start = index += delimiter.length;
+          }
+
+          buffer = buffer.slice(start);
+        }
+
+        if (buffer) yield buffer;
+      }(this)),
+      "splitOn",
+      this,
+    );
+  }
+
+  /**
+   * Splits the chunks of text into lines, which may end in either LF or CRLF.
+   * @returns a {@link AsyncIter} of lines without their line endings.
+   */
+  lines(this: AsyncIter<string>): AsyncIter<string> {
+    return recordStage(
+      this.splitOn("\n")
+        .mapSync((line) => line.endsWith("\r") ? line.slice(0, -1) : line),
+      "lines",
+      this,
+    );
+  }
+
+  /**
+   * Parses the chunks of text as newline delimited JSON, skipping blank lines.
+   * @returns a {@link AsyncIter} of results, holding either the parsed value or a
+   * {@link ParseError} with the number of the line that isn't valid JSON.
+   */
+  parseNdjson<Output = unknown>(
+    this: AsyncIter<string>,
+  ): AsyncIter<Result<Output, ParseError>> {
+    let line = 0;
+
+    return recordStage(
+      this.lines().filterMapSync((text) => {
+        line++;
+        if (text.trim() === "") return undefined;
+
+        try {
+          return ok(JSON.parse(text) as Output);
+        } catch (error) {
+          return err(new ParseError("invalid JSON", line, { cause: error }));
+        }
+      }),
+      "parseNdjson",
+      this,
+    );
+  }
+
+  /**
+   * Parses the chunks of text as CSV as defined by RFC 4180, where quoted fields can hold
+   * separators, quotes and newlines. Blank lines are skipped.
+   * @param options how rows are turned into records and the character between fields.
+   * @returns a {@link AsyncIter} of records, or arrays of fields without a header, throwing a
+   * {@link ParseError} if the text isn't valid CSV.
+   */
+  parseCsv(
+    this: AsyncIter<string>,
+    options: ParseCsvOptions & { header: false },
+  ): AsyncIter<string[]>;
+  parseCsv(
+    this: AsyncIter<string>,
+    options?: ParseCsvOptions,
+  ): AsyncIter<Record<string, string>>;
+  parseCsv(
+    this: AsyncIter<string>,
+    options: ParseCsvOptions = {},
+  ): AsyncIter<string[] | Record<string, string>> {
+    const parser = new CsvParser(options.separator);
+
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<string>) {
+        let header = Array.isArray(options.header) ? options.header : undefined;
+
+        const rows = async function* () {
+          for await (const chunk of iter) {
+            yield* parser.feed(chunk);
+          }
+
+          yield* parser.finish();
+        }();
+
+        for await (const row of rows) {
+          if (options.header === false) {
+            yield row.fields;
+          } else if (header === undefined) {
+            header = row.fields;
+          } else if (row.fields.length !== header.length) {
+            throw new ParseError(
+              `expected ${header.length} fields but found ${row.fields.length}`,
+              row.line,
+            );
+          } else {
+            const fields = row.fields;
+            yield Object.fromEntries(
+              header.map((name, index) => [name, fields[index]]),
+            );
+          }
+        }
+      }(this)),
+      "parseCsv",
+      this,
+    );
+  }
+
+  /**
+   * Formats every item as a line of newline delimited JSON, throwing a {@link TypeError} for items
+   * that have no JSON representation, such as undefined or functions.
+   * @returns a {@link AsyncIter} of lines of JSON, each ending in a newline.
+   */
+  toNdjson(): AsyncIter<string> {
+    return recordStage(
+      this.mapSync((item) => {
+        const json = JSON.stringify(item);
+        if (json === undefined) {
+          throw new TypeError(`${typeof item} can't be written as JSON`);
+        }
+
+        return `${json}\n`;
+      }),
+      "toNdjson",
+      this,
+    );
+  }
+
+  /**
+   * Formats every item as a line of CSV as defined by RFC 4180, quoting the fields that need it.
+   * Records are written after a header, arrays are written as they are.
+   * @param options the names of the fields written from every record and the character between
+   * fields.
+   * @returns a {@link AsyncIter} of lines of CSV, each ending in CRLF.
+   */
+  toCsv(
+    this: AsyncIter<Record<string, unknown> | unknown[]>,
+    options: ToCsvOptions = {},
+  ): AsyncIter<string> {
+    const separator = options.separator ?? ",";
+
+    return recordStage(
+      new AsyncIter(
+        async function* (iter: AsyncIter<Record<string, unknown> | unknown[]>) {
+          let header = options.header;
+          let wroteHeader = false;
+
+          for await (const item of iter) {
+            if (Array.isArray(item)) {
+              yield formatCsvRow(item, separator);
+              continue;
+            }
+
+            header ??= Object.keys(item);
+
+            if (!wroteHeader) {
+              wroteHeader = true;
+              yield formatCsvRow(header, separator);
+            }
+
+            yield formatCsvRow(header.map((name) => item[name]), separator);
+          }
+        }(this),
+      ),
+      "toCsv",
+      this,
+    );
+  }
+
+  /**
+   * Wraps every item in a successful {@link Result}, turning an error thrown by the iterator into
+   * a failed {@link Result} that ends the iterator. Anything can be thrown, so the errors are
+   * `unknown` until they are narrowed with {@link AsyncIter.mapErr}.
+   * @returns a {@link AsyncIter} of results.
+   */
+  intoResults(): AsyncIter<Result<T, unknown>> {
+    return recordStage(
+      new AsyncIter(async function* (iter: AsyncIter<T>) {
+        let done = false;
+
+        try {
+          while (true) {
+            let result: IteratorResult<T>;
+
+            try {
+              result = await iter.next();
+            } catch (error) {
+              // An iterator that has thrown won't produce any more items.
+              done = true;
+              yield err(error);
+              return;
+            }
+
+            if ((done = result.done ?? true)) return;
+            yield ok(result.value);
+          }
+        } finally {
+          if (!done) await iter.return();
+        }
+      }(this)),
+      "intoResults",
+      this,
+    );
+  }
+
+  /**
+   * Maps the values of successful results, errors thrown by the function become failed results
+   * and failed results are passed through untouched. The output of the function is awaited so its
+   * rejections can be captured.
+   * @param func a function to map values.
+   * @returns a {@link AsyncIter} of results where all values have been mapped by the function.
+   */
+  tryMap<Value, E, Output>(
+    this: AsyncIter<Result<Value, E>>,
+    func: (value: Value) => Output | Promise<Output>,
+  ): AsyncIter<Result<Output, unknown>> {
+    return recordStage(
+      this.map(async (result) => {
+        if (!result.ok) return result;
+
+        try {
+          return ok(await func(result.value));
+        } catch (error) {
+          return err(error);
+        }
+      }),
+      "tryMap",
+      this,
+    );
+  }
+
+  /**
+   * Filters the values of successful results, errors thrown by the predicate become failed
+   * results and failed results are passed through untouched.
+   * @param predicate if the value should be included in the resulting iterator.
+   * @returns a {@link AsyncIter} of results where all values have passed the predicate.
+   */
+  tryFilter<Value, E>(
+    this: AsyncIter<Result<Value, E>>,
+    predicate: (value: Value) => boolean | Promise<boolean>,
+  ): AsyncIter<Result<Value, unknown>> {
+    return recordStage(
+      this.filterMap(async (result) => {
+        if (!result.ok) return result;
+
+        try {
+          return await predicate(result.value) ? result : undefined;
+        } catch (error) {
+          return err(error);
+        }
+      }),
+      "tryFilter",
+      this,
+    );
+  }
+
+  /**
+   * Maps the errors of failed results, successful results are passed through untouched.
+   * @param func a function to map errors.
+   * @returns a {@link AsyncIter} of results where all errors have been mapped by the function.
+   */
+  mapErr<Value, E, F>(
+    this: AsyncIter<Result<Value, E>>,
+    func: (error: E) => F,
+  ): AsyncIter<Result<Value, F>> {
+    return recordStage(
+      this.mapSync((result) => result.ok ? result : err(func(result.error))),
+      "mapErr",
+      this,
+    );
+  }
+
+  /**
+   * Recovers from failed results by replacing their errors with a value, errors thrown by the
+   * handler become failed results.
+   * @param handler a function that creates a value from an error.
+   * @returns a {@link AsyncIter} of results where all errors have been handled.
+   */
+  catchError<Value, E>(
+    this: AsyncIter<Result<Value, E>>,
+    handler: (error: E) => Value | Promise<Value>,
+  ): AsyncIter<Result<Value, unknown>> {
+    return recordStage(
+      this.map(async (result) => {
+        if (result.ok) return result;
+
+        try {
+          return ok(await handler(result.error));
+        } catch (error) {
+          return err(error);
+        }
+      }),
+      "catchError",
+      this,
+    );
+  }
+
+  /**
+   * Maps the values of successful results, running the function again for the same value when it
+   * rejects for as long as the policy allows. The last error becomes a failed result and failed
+   * results are passed through untouched.
+   * @param func a function to map values.
+   * @param policy how many times and how soon the function is run for a value.
+   * @returns a {@link AsyncIter} of results where all values have been mapped by the function.
+   */
+  retry<Value, E, Output>(
+    this: AsyncIter<Result<Value, E>>,
+    func: (value: Value) => Output | Promise<Output>,
+    policy: AsyncRetryPolicy,
+  ): AsyncIter<Result<Output, unknown>> {
+    return recordStage(
+      this.map(async (result) => {
+        if (!result.ok) return result;
+
+        for (let attempt = 1;; attempt++) {
+          try {
+            return ok(await func(result.value));
+          } catch (error) {
+            const retry = attempt < policy.attempts &&
+              (policy.shouldRetry?.(error, attempt) ?? true);
+            if (!retry) return err(error);
+
+            const ms = policy.delay?.(attempt) ?? 0;
+            if (ms > 0) await sleep(policy.scheduler ?? systemScheduler, ms)[0];
+          }
+        }
+      }),
+      "retry",
+      this,
+    );
+  }
+
+  /**
+   * Creates an iterator that can look at the next item without consuming it.
+   * @returns a {@link PeekableAsyncIter} over the items of the iterator.
+   */
+  peekable(): PeekableAsyncIter<T> {
+    return recordStage(new PeekableAsyncIter(this), "peekable", this);
+  }
+
+  /**
+   * Splits the iterator into n branches that each yield every item, buffering the items that
+   * some branches have read and others haven't yet. The iterator is closed once every branch has
+   * been closed.
+   * @param n how many branches to create.
+   * @param options how far branches can fall behind each other, a branch that gets too far ahead
+   * waits for the others to catch up.
+   * @returns the branches.
+   */
+  tee(n = 2, options: TeeOptions = {}): AsyncIter<T>[] {
+    if (n < 1) throw new RangeError("tee needs at least 1 branch");
+
+    const shared = new SharedAsyncIter(this, 0, options.bufferSize ?? Infinity);
+    return Array.from({ length: n }, () => shared.subscribe());
+  }
+
+  /**
+   * Turns the iterator into a hot source that many subscribers can read from at once, every
+   * subscriber receiving the items read after it subscribed. The iterator is read as fast as the
+   * fastest subscriber, and closed once every subscriber has been closed.
+   * @param options how many of the latest items are replayed to new subscribers.
+   * @returns a {@link SharedAsyncIter} to subscribe to.
+   */
+  share(options: ShareOptions = {}): SharedAsyncIter<T> {
+    return new SharedAsyncIter(this, options.replay ?? 0, Infinity);
+  }
+
+  /**
+   * Flattens the iterator of iterables by one level, reading from up to n of the iterables at once
+   * and yielding their items as soon as they arrive. The same as {@link AsyncIter.mergeAll}.
+   * @param limit how many iterables can be read from at once.
+   * @returns a {@link AsyncIter} that yields the items of all iterables yielded by the iterator.
+   */
+  flattenUnordered<Output>(
+    this: AsyncIter<MaybeAsyncIterable<Output>>,
+    limit?: number,
+  ): AsyncIter<Output> {
+    return recordStage(
+      new AsyncIter(interleave(this, limit ?? Infinity, "roundRobin")),
+      "flattenUnordered",
+      this,
+    );
+  }
+
+  /**
+   * Maps every item into an iterable and flattens them, reading from up to n of the iterables at
+   * once and yielding their items as soon as they arrive.
+   * @param func a function to map items into iterables.
+   * @param limit how many iterables can be read from at once.
+   * @returns a {@link AsyncIter} that yields the items of all iterables the items were mapped to.
+   */
+  flatMapConcurrent<Output>(
+    func: (item: T) => MaybeAsyncIterable<Output>,
+    limit?: number,
+  ): AsyncIter<Output> {
+    return recordStage(
+      this.mapSync(func).flattenUnordered(limit),
+      "flatMapConcurrent",
+      this,
+    );
+  }
+
+  /**
+   * Iterates through the entire iterator and collects the items as an array.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns all the items in the iterator as an array.
+   */
+  async collect(options: AbortOptions = {}): Promise<T[]> {
+    const items: T[] = [];
+
+    for await (const item of this.#abortable(options.signal)) {
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  /**
+   * Iterates through the entire iterator of key value pairs and collects them as a map, later
+   * pairs overwriting earlier pairs with the same key.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns all the pairs in the iterator as a map.
+   */
+  toMap<K, V>(
+    this: AsyncIter<[K, V]>,
+    options: AbortOptions = {},
+  ): Promise<Map<K, V>> {
+    return this.collectInto({
+      create: () => new Map<K, V>(),
+      add: (map, [key, value]) => map.set(key, value),
+    }, options);
+  }
+
+  /**
+   * Iterates through the entire iterator and collects the distinct items as a set.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns all the items in the iterator as a set.
+   */
+  toSet(options: AbortOptions = {}): Promise<Set<T>> {
+    return this.collectInto({
+      create: () => new Set<T>(),
+      add: (set, item) => set.add(item),
+    }, options);
+  }
+
+  /**
+   * Iterates through the entire iterator of key value pairs and collects them as an object, later
+   * pairs overwriting earlier pairs with the same key.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns all the pairs in the iterator as an object.
+   */
+  async toObject<K extends PropertyKey, V>(
+    this: AsyncIter<[K, V]>,
+    options: AbortOptions = {},
+  ): Promise<Record<K, V>> {
+    return Object.fromEntries(await this.collect(options)) as Record<K, V>;
+  }
+
+  /**
+   * Iterates through the entire iterator and joins the items into a string.
+   * @param separator the string placed between items.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the items converted to strings and joined by the separator.
+   */
+  async join(separator = ",", options: AbortOptions = {}): Promise<string> {
+    let joined = "";
+    let first = true;
+
+    for await (const item of this.#abortable(options.signal)) {
+      if (!first) joined += separator;
+      first = false;
+      joined += String(item);
+    }
+
+    return joined;
+  }
+
+  /**
+   * Iterates through the entire iterator and collects the items into the collector's container.
+   * @param collector creates the container and adds items to it.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the container holding all the items in the iterator.
+   */
+  async collectInto<C>(
+    collector: Collector<T, C>,
+    options: AbortOptions = {},
+  ): Promise<C> {
+    let container = collector.create();
+
+    for await (const item of this.#abortable(options.signal)) {
+      container = collector.add(container, item);
+    }
+
+    return container;
+  }
+
+  /**
+   * Iterates through the entire iterator reducing all items to one value.
+   * @param func a function executed on each item of the iterator with the previous value supplied.
+   * @param initial the initial value to be passed to the reducer function.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the iterator reduced down to a single value.
+   */
+  async reduce<X>(
+    func: (prev: X, item: T) => X,
+    initial: X,
+    options: AbortOptions = {},
+  ): Promise<X> {
+    let result = initial;
+
+    for await (const item of this.#abortable(options.signal)) {
+      result = func(result, item);
+    }
+
+    return result;
+  }
+
+  /**
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the number of items the {@link AsyncIter} will yield.
+   */
+  async count(options: AbortOptions = {}): Promise<number> {
+    let count = 0;
+
+    for await (const _ of this.#abortable(options.signal)) {
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Iterates through the iterator until an item matches the predicate.
+   * @param predicate a function that decides if an item is the one being searched for.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the first item that matched the predicate, or undefined if none did.
+   */
+  async find(
+    predicate: (item: T) => boolean | Promise<boolean>,
+    options: AbortOptions = {},
+  ): Promise<T | undefined> {
+    for await (const item of this.#abortable(options.signal)) {
+      if (await predicate(item)) return item;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterates through the iterator until the function returns a value other than undefined.
+   * @param func a function that maps items, returning undefined for items that don't match.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the first mapped value that wasn't undefined, or undefined if there was none.
+   */
+  async findMap<Output>(
+    func: (item: T) => Output | undefined | Promise<Output | undefined>,
+    options: AbortOptions = {},
+  ): Promise<Output | undefined> {
+    for await (const item of this.#abortable(options.signal)) {
+      const output = await func(item);
+      if (output !== undefined) return output;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterates through the iterator until an item matches the predicate.
+   * @param predicate a function that decides if an item is the one being searched for.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the index of the first item that matched the predicate, or undefined if none did.
+   */
+  async position(
+    predicate: (item: T) => boolean | Promise<boolean>,
+    options: AbortOptions = {},
+  ): Promise<number | undefined> {
+    let index = 0;
+
+    for await (const item of this.#abortable(options.signal)) {
+      if (await predicate(item)) return index;
+      index++;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterates through the iterator until an item matches the predicate.
+   * @param predicate a function that tests items.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns true if any item matched the predicate.
+   */
+  async any(
+    predicate: (item: T) => boolean | Promise<boolean>,
+    options: AbortOptions = {},
+  ): Promise<boolean> {
+    return await this.position(predicate, options) !== undefined;
+  }
+
+  /**
+   * Iterates through the iterator until an item doesn't match the predicate.
+   * @param predicate a function that tests items.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns true if every item matched the predicate, including when the iterator is empty.
+   */
+  async all(
+    predicate: (item: T) => boolean | Promise<boolean>,
+    options: AbortOptions = {},
+  ): Promise<boolean> {
+    return !await this.any(async (item) => !await predicate(item), options);
+  }
+
+  /**
+   * Iterates through the entire iterator, keeping only the last item.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the last item, or undefined if the iterator is empty.
+   */
+  last(options: AbortOptions = {}): Promise<T | undefined> {
+    return this.reduce<T | undefined>((_, item) => item, undefined, options);
+  }
+
+  /**
+   * Consumes the iterator up to and including the nth item.
+   * @param n the zero based index of the item.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the nth item, or undefined if the iterator ends before reaching it.
+   */
+  async nth(n: number, options: AbortOptions = {}): Promise<T | undefined> {
+    if (n < 0) return undefined;
+
+    let index = 0;
+
+    for await (const item of this.#abortable(options.signal)) {
+      if (index++ === n) return item;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterates through the entire iterator to find the smallest item, keeping the first of equal
+   * items.
+   * @param compare a function that orders two items.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the smallest item, or undefined if the iterator is empty.
+   */
+  minBy(
+    compare: Comparator<T>,
+    options: AbortOptions = {},
+  ): Promise<T | undefined> {
+    // Items can be undefined themselves, so whether an item was seen is tracked separately.
+    let seen = false;
+
+    return this.reduce<T | undefined>(
+      (min, item) => {
+        const replace = !seen || compare(item, min as T) < 0;
+        seen = true;
+        return replace ? item : min;
+      },
+      undefined,
+      options,
+    );
+  }
+
+  /**
+   * Iterates through the entire iterator to find the largest item, keeping the last of equal items.
+   * @param compare a function that orders two items.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the largest item, or undefined if the iterator is empty.
+   */
+  maxBy(
+    compare: Comparator<T>,
+    options: AbortOptions = {},
+  ): Promise<T | undefined> {
+    let seen = false;
+
+    return this.reduce<T | undefined>(
+      (max, item) => {
+        const replace = !seen || compare(item, max as T) >= 0;
+        seen = true;
+        return replace ? item : max;
+      },
+      undefined,
+      options,
+    );
+  }
+
+  /**
+   * Iterates through the entire iterator to find the item with the smallest key, keeping the first
+   * of equal items.
+   * @param key a function that extracts the key to order items by.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the item with the smallest key, or undefined if the iterator is empty.
+   */
+  async minByKey<K>(
+    key: (item: T) => K,
+    options: AbortOptions = {},
+  ): Promise<T | undefined> {
+    const min = await this.mapSync((item) => [key(item), item] as const)
+      .minBy(([a], [b]) => defaultCompare(a, b), options);
+    return min?.[1];
+  }
+
+  /**
+   * Iterates through the entire iterator to find the item with the largest key, keeping the last
+   * of equal items.
+   * @param key a function that extracts the key to order items by.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the item with the largest key, or undefined if the iterator is empty.
+   */
+  async maxByKey<K>(
+    key: (item: T) => K,
+    options: AbortOptions = {},
+  ): Promise<T | undefined> {
+    const max = await this.mapSync((item) => [key(item), item] as const)
+      .maxBy(([a], [b]) => defaultCompare(a, b), options);
+    return max?.[1];
+  }
+
+  /**
+   * Iterates through the entire iterator adding up the numbers.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the sum of all numbers, or 0 if the iterator is empty.
+   */
+  sum(this: AsyncIter<number>, options: AbortOptions = {}): Promise<number> {
+    return this.reduce((sum, item) => sum + item, 0, options);
+  }
+
+  /**
+   * Iterates through the entire iterator multiplying the numbers.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the product of all numbers, or 1 if the iterator is empty.
+   */
+  product(
+    this: AsyncIter<number>,
+    options: AbortOptions = {},
+  ): Promise<number> {
+    return this.reduce((product, item) => product * item, 1, options);
+  }
+
+  /**
+   * Iterates through the entire iterator splitting the items in two by the predicate.
+   * @param predicate a function that decides which array an item belongs in.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the items that matched the predicate and the items that didn't.
+   */
+  async partition(
+    predicate: (item: T) => boolean | Promise<boolean>,
+    options: AbortOptions = {},
+  ): Promise<[T[], T[]]> {
+    const matched: T[] = [];
+    const unmatched: T[] = [];
+
+    for await (const item of this.#abortable(options.signal)) {
+      (await predicate(item) ? matched : unmatched).push(item);
+    }
+
+    return [matched, unmatched];
+  }
+
+  /**
+   * Iterates through the entire iterator grouping items by their key.
+   * @param key a function that extracts the key to group items by.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns a map of keys, in the order they were first seen, to the items that share them.
+   */
+  async groupBy<K>(
+    key: (item: T) => K | Promise<K>,
+    options: AbortOptions = {},
+  ): Promise<Map<K, T[]>> {
+    const groups = new Map<K, T[]>();
+
+    for await (const item of this.#abortable(options.signal)) {
+      const itemKey = await key(item);
+      const group = groups.get(itemKey);
+
+      if (group) group.push(item);
+      else groups.set(itemKey, [item]);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Iterates through the entire iterator counting items by their key.
+   * @param key a function that extracts the key to count items by.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns a map of keys, in the order they were first seen, to how many items share them.
+   */
+  async countBy<K>(
+    key: (item: T) => K | Promise<K>,
+    options: AbortOptions = {},
+  ): Promise<Map<K, number>> {
+    const counts = new Map<K, number>();
+
+    for await (const item of this.#abortable(options.signal)) {
+      const itemKey = await key(item);
+      counts.set(itemKey, (counts.get(itemKey) ?? 0) + 1);
+    }
+
+    return counts;
+  }
+
+  /**
+   * Iterates through the entire iterator of pairs splitting them into two arrays.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the first items of each pair and the second items of each pair.
+   */
+  async unzip<A, B>(
+    this: AsyncIter<[A, B]>,
+    options: AbortOptions = {},
+  ): Promise<[A[], B[]]> {
+    const left: A[] = [];
+    const right: B[] = [];
+
+    for await (const [a, b] of this.#abortable(options.signal)) {
+      left.push(a);
+      right.push(b);
+    }
+
+    return [left, right];
+  }
+
+  /**
+   * Iterates through the entire iterator folding all items into one value, like
+   * {@link AsyncIter.reduce} with the initial value first and an async folding function.
+   * @param initial the initial value to be passed to the folding function.
+   * @param func a function executed on each item of the iterator with the previous value supplied.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the iterator folded down to a single value.
+   */
+  async fold<X>(
+    initial: X,
+    func: (prev: X, item: T) => X | Promise<X>,
+    options: AbortOptions = {},
+  ): Promise<X> {
+    let result = initial;
+
+    for await (const item of this.#abortable(options.signal)) {
+      result = await func(result, item);
+    }
+
+    return result;
+  }
+
+  /**
+   * Iterates through the iterator folding all items into one value, stopping at the first failed
+   * result.
+   * @param initial the initial value to be passed to the folding function.
+   * @param func a function executed on each item of the iterator with the previous value supplied.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns the folded value, or the first failed result.
+   */
+  async tryFold<X, E>(
+    initial: X,
+    func: (prev: X, item: T) => Result<X, E> | Promise<Result<X, E>>,
+    options: AbortOptions = {},
+  ): Promise<Result<X, E>> {
+    let result = initial;
+
+    for await (const item of this.#abortable(options.signal)) {
+      const folded = await func(result, item);
+      if (!folded.ok) return folded;
+      result = folded.value;
+    }
+
+    return ok(result);
+  }
+
+  /**
+   * Compares the items of both iterators in order, stopping at the first unequal pair. An iterator
+   * that ends first is smaller than the other. Both iterators are advanced in parallel.
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @param options a signal that stops the comparison, rejecting with the signal's reason.
+   * @returns -1 if this iterator is smaller, 1 if it is larger and 0 if both are equal.
+   */
+  async cmp(
+    other: MaybeAsyncIterable<T>,
+    compare: Comparator<T> = defaultCompare,
+    options: AbortOptions = {},
+  ): Promise<number> {
+    const { signal } = options;
+    const left = this.#abortable(signal)[Symbol.asyncIterator]();
+    // The other iterator can be waiting for an item when the signal is aborted, so it's raced too.
+    const right = signal
+      ? untilAborted(iteratorOf(other), signal, true)
+      : iteratorOf(other);
+    let leftDone = false;
+    let rightDone = false;
+
+    try {
+      while (true) {
+        const [a, b] = await Promise.all([left.next(), right.next()]);
+        leftDone = !!a.done;
+        rightDone = !!b.done;
+
+        if (a.done || b.done) {
+          return Number(!a.done) - Number(!b.done);
+        }
+
+        const order = Math.sign(compare(a.value, b.value));
+        if (order !== 0) return order;
+      }
+    } finally {
+      await Promise.all([
+        leftDone ? undefined : left.return?.(),
+        rightDone ? undefined : right.return?.(),
+      ]);
+    }
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param options a signal that stops the comparison, rejecting with the signal's reason.
+   * @returns true if both iterators yield strictly equal items in the same order.
+   */
+  async eq(
+    other: MaybeAsyncIterable<T>,
+    options: AbortOptions = {},
+  ): Promise<boolean> {
+    return await this.cmp(other, (a, b) => a === b ? 0 : 1, options) === 0;
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param options a signal that stops the comparison, rejecting with the signal's reason.
+   * @returns true if the iterators yield different items.
+   */
+  async ne(
+    other: MaybeAsyncIterable<T>,
+    options: AbortOptions = {},
+  ): Promise<boolean> {
+    return !await this.eq(other, options);
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @param options a signal that stops the comparison, rejecting with the signal's reason.
+   * @returns true if this iterator is lexicographically smaller than the other.
+   */
+  async lt(
+    other: MaybeAsyncIterable<T>,
+    compare?: Comparator<T>,
+    options: AbortOptions = {},
+  ): Promise<boolean> {
+    return await this.cmp(other, compare, options) < 0;
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @param options a signal that stops the comparison, rejecting with the signal's reason.
+   * @returns true if this iterator is lexicographically smaller than or equal to the other.
+   */
+  async le(
+    other: MaybeAsyncIterable<T>,
+    compare?: Comparator<T>,
+    options: AbortOptions = {},
+  ): Promise<boolean> {
+    return await this.cmp(other, compare, options) <= 0;
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @param options a signal that stops the comparison, rejecting with the signal's reason.
+   * @returns true if this iterator is lexicographically larger than the other.
+   */
+  async gt(
+    other: MaybeAsyncIterable<T>,
+    compare?: Comparator<T>,
+    options: AbortOptions = {},
+  ): Promise<boolean> {
+    return await this.cmp(other, compare, options) > 0;
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @param options a signal that stops the comparison, rejecting with the signal's reason.
+   * @returns true if this iterator is lexicographically larger than or equal to the other.
+   */
+  async ge(
+    other: MaybeAsyncIterable<T>,
+    compare?: Comparator<T>,
+    options: AbortOptions = {},
+  ): Promise<boolean> {
+    return await this.cmp(other, compare, options) >= 0;
+  }
+
+  /**
+   * Executes the provided function for every item in the iterator.
+   * @param func a function that accepts items.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   */
+  async forEach(
+    func: (item: T) => void,
+    options: AbortOptions = {},
+  ): Promise<void> {
+    for await (const item of this.#abortable(options.signal)) {
+      func(item);
+    }
+  }
+
+  /**
+   * Executes the provided function for every item in the iterator concurrently with an optional
+   * concurrency limit. Items are pulled from the iterator only once there is room for them, and
+   * by default the first failure stops pulling items and rejects without waiting for the rest.
+   * The function is given a signal that is aborted when the remaining work is no longer needed.
+   * @param func an async function that accepts items.
+   * @param limit how many promises can be processed concurrently.
+   * @param options how failures of the provided function are reported and a signal that stops the
+   * iteration, rejecting with the signal's reason.
+   */
+  async forEachConcurrent(
+    func: (item: T, signal: AbortSignal) => Promise<void>,
+    limit?: number,
+    options: ForEachConcurrentOptions = {},
+  ): Promise<void> {
+    if (limit !== undefined && !(limit >= 1)) {
+      throw new RangeError("limit must be at least 1");
+    }
+
+    const { signal, collectErrors } = options;
+    const running = new Set<Promise<void>>();
+    const errors: unknown[] = [];
+
+    // Aborted once the running tasks are no longer needed, either because the provided signal was
+    // aborted or because we're failing fast.
+    const controller = new AbortController();
+
+    // Rejects with the reason processing stopped early, used to stop waiting on running tasks.
+    let stop!: (reason: unknown) => void;
+    const stopped = new Promise<never>((_, reject) => stop = reject);
+    stopped.catch(() => {});
+
+    const onAbort = () => {
+      controller.abort(signal?.reason);
+      stop(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      for await (const item of this.#abortable(signal)) {
+        if (controller.signal.aborted) break;
+
+        const task: Promise<void> = spawn(() => func(item, controller.signal))
+          .then(
+            () => {
+              running.delete(task);
+            },
+            (error) => {
+              running.delete(task);
+              errors.push(error);
+
+              if (!collectErrors) {
+                controller.abort(error);
+                stop(error);
+              }
+            },
+          );
+        running.add(task);
+
+        // Wait for a free slot before pulling the next item.
+        while (running.size >= (limit ?? Infinity)) {
+          await Promise.race([stopped, ...running]);
+        }
+      }
+
+      await Promise.race([stopped, Promise.all(running)]);
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (errors.length > 0) {
+      throw new AggregateError(
+        errors,
+        `${errors.length} of the concurrently processed items failed`,
+      );
+    }
+  }
+
+  /**
+   * Iterates through the iterator and collects the values of the results as an array, stopping at
+   * the first failed result.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @returns all the values in the iterator as an array.
+   * @throws the error of the first failed result.
+   */
+  async tryCollect<Value, E>(
+    this: AsyncIter<Result<Value, E>>,
+    options: AbortOptions = {},
+  ): Promise<Value[]> {
+    const values: Value[] = [];
+
+    for await (const result of this.#abortable(options.signal)) {
+      if (!result.ok) throw result.error;
+      values.push(result.value);
+    }
+
+    return values;
+  }
+
+  /**
+   * Executes the provided function for the value of every result in the iterator, stopping at the
+   * first failed result.
+   * @param func a function that accepts values.
+   * @param options a signal that stops the iteration, rejecting with the signal's reason.
+   * @throws the error of the first failed result.
+   */
+  async tryForEach<Value, E>(
+    this: AsyncIter<Result<Value, E>>,
+    func: (value: Value) => void | Promise<void>,
+    options: AbortOptions = {},
+  ): Promise<void> {
+    for await (const result of this.#abortable(options.signal)) {
+      if (!result.ok) throw result.error;
+      await func(result.value);
+    }
+  }
+
+  /**
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/asyncIterator
+   */
+  next(): Promise<IteratorResult<T>> {
+    return this.#inner.next();
+  }
+
+  /**
+   * Closes the underlying iterator, letting it release any resources it holds.
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Iteration_protocols
+   */
+  return(value?: unknown): Promise<IteratorResult<T>> {
+    if (this.#inner.return) return this.#inner.return(value);
+    return Promise.resolve({ done: true, value });
+  }
+
+  /**
+   * Throws the error into the underlying iterator, closing it if it can't handle errors.
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Iteration_protocols
+   */
+  async throw(error?: unknown): Promise<IteratorResult<T>> {
+    if (this.#inner.throw) return this.#inner.throw(error);
+
+    await this.return();
+    throw error;
+  }
+
+  /**
+   * Converts the iterator into a {@link ReadableStream} that only reads the next item once the
+   * stream is read from, closing the iterator if the stream is cancelled.
+   * @returns a {@link ReadableStream} of the items in the iterator.
+   */
+  toReadableStream(): ReadableStream<T> {
+    return new ReadableStream<T>({
+      pull: async (controller) => {
+        const result = await this.next();
+
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      cancel: async (reason) => {
+        await this.return(reason);
+      },
+    }, { highWaterMark: 0 });
+  }
+
+  /**
+   * Writes every item in the iterator to the {@link WritableStream}, waiting for the stream to
+   * accept each item before reading the next one.
+   * @param destination the stream to write items to.
+   * @param options how the streams are closed once writing stops.
+   */
+  pipeTo(
+    destination: WritableStream<T>,
+    options?: StreamPipeOptions,
+  ): Promise<void> {
+    return this.toReadableStream().pipeTo(destination, options);
+  }
+
+  /**
+   * @returns the iterator itself, or one that rejects with the signal's reason once it's aborted.
+   */
+  #abortable(signal?: AbortSignal): AsyncIterable<T> {
+    return signal ? untilAborted(this, signal, true) : this;
+  }
+
+  /**
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/asyncIterator
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T, unknown, undefined> {
+    return this;
+  }
+}
+
+/**
+ * An {@link AsyncIter} that can look at the next item without consuming it.
+ * Modelled after {@link https://doc.rust-lang.org/stable/std/iter/struct.Peekable.html}.
+ */
+export class PeekableAsyncIter<T> extends AsyncIter<T> {
+  #peeked?: Promise<IteratorResult<T>>;
+
+  /**
+   * @returns the next item without advancing the iterator, or undefined if it is exhausted.
+   */
+  async peek(): Promise<T | undefined> {
+    const result = await (this.#peeked ??= super.next());
+    return result.done ? undefined : result.value;
+  }
+
+  /**
+   * Consumes the next item only if it passes the predicate.
+   * @param predicate if the next item should be consumed.
+   * @returns the next item if it passed the predicate, otherwise undefined.
+   */
+  async nextIf(predicate: (item: T) => boolean): Promise<T | undefined> {
+    const result = await (this.#peeked ??= super.next());
+    if (result.done || !predicate(result.value)) return undefined;
+
+    this.#peeked = undefined;
+    return result.value;
+  }
+
+  /**
+   * Consumes the next item only if it is equal to the expected value.
+   * @param expected the value the next item is compared against.
+   * @returns the next item if it was equal to the expected value, otherwise undefined.
+   */
+  nextIfEq(expected: T): Promise<T | undefined> {
+    return this.nextIf((item) => item === expected);
+  }
+
+  /**
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/asyncIterator
+   */
+  override next(): Promise<IteratorResult<T>> {
+    const peeked = this.#peeked;
+    if (peeked === undefined) return super.next();
+
+    this.#peeked = undefined;
+    return peeked;
+  }
+
+  /**
+   * Closes the underlying iterator, letting it release any resources it holds.
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Iteration_protocols
+   */
+  override return(value?: unknown): Promise<IteratorResult<T>> {
+    this.#peeked = undefined;
+    return super.return(value);
+  }
+}
+
+/**
+ * An {@link AsyncIter} of chunks with exactly n items that keeps hold of the items left over.
+ * Modelled after {@link https://doc.rust-lang.org/stable/std/slice/struct.ChunksExact.html}.
+ */
+export class ChunksExactAsyncIter<T> extends AsyncIter<T[]> {
+  #state: { remainder: T[] };
+
+  constructor(iter: AsyncIter<T>, size: number) {
+    const state = { remainder: [] as T[] };
+
+    super(async function* () {
+      let chunk: T[] = [];
+
+      for await (const item of iter) {
+        chunk.push(item);
+
+        if (chunk.length >= size) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+
+      state.remainder = chunk;
+    }());
+
+    this.#state = state;
+  }
+
+  /**
+   * @returns the items that didn't fill a whole chunk, only known once the iterator is exhausted.
+   */
+  remainder(): T[] {
+    return this.#state.remainder;
+  }
+}
+
+/**
+ * An {@link AsyncIter} shared between subscribers, which each receive every item read after they
+ * subscribed.
+ */
+export class SharedAsyncIter<T> {
+  #source: AsyncIter<T>;
+  #replay: T[] = [];
+  #replaySize: number;
+  #bufferSize: number;
+  // The items each subscriber has yet to read.
+  #queues = new Set<T[]>();
+  #pulling?: Promise<void>;
+  #finished = false;
+  #failure?: { error: unknown };
+  #changed?: Promise<void>;
+  #notify = () => {};
+
+  /**
+   * @param source the iterator to share.
+   * @param replaySize how many of the latest items are replayed to new subscribers.
+   * @param bufferSize how many items a subscriber can fall behind before the others wait for it.
+   */
+  constructor(source: AsyncIter<T>, replaySize: number, bufferSize: number) {
+    this.#source = source;
+    this.#replaySize = replaySize;
+    this.#bufferSize = bufferSize;
+  }
+
+  /**
+   * Creates an iterator of the items read from the shared iterator from now on, starting with
+   * the replayed items.
+   * @returns a {@link AsyncIter} of the shared items.
+   */
+  subscribe(): AsyncIter<T> {
+    const queue = [...this.#replay];
+    this.#queues.add(queue);
+
+    return new AsyncIter<T>({
+      next: async () => {
+        while (true) {
+          if (!this.#queues.has(queue)) return { done: true, value: undefined };
+
+          if (queue.length > 0) {
+            const value = queue.shift()!;
+            this.#notify();
+            return { done: false, value };
+          }
+
+          const failure = this.#failure;
+          if (failure) {
+            this.#unsubscribe(queue);
+            throw failure.error;
+          }
+          if (this.#finished) return { done: true, value: undefined };
+
+          await this.#pull();
+        }
+      },
+      return: async (value?: unknown) => {
+        await this.#unsubscribe(queue);
+        return { done: true, value };
+      },
+    });
+  }
+
+  /**
+   * Reads the next item into the queue of every subscriber, unless another subscriber is already
+   * reading it or a subscriber has no room left, in which case this waits for that instead.
+   */
+  #pull(): Promise<void> {
+    if (this.#pulling) return this.#pulling;
+
+    for (const queue of this.#queues) {
+      if (queue.length < this.#bufferSize) continue;
+
+      // Wait for a subscriber to read an item or leave before checking again.
+      return this.#changed ??= new Promise((resolve) => {
+        this.#notify = () => {
+          this.#changed = undefined;
+          this.#notify = () => {};
+          resolve();
+        };
+      });
+    }
+
+    return this.#pulling = this.#source.next().then((result) => {
+      if (result.done) {
+        this.#finished = true;
+        return;
+      }
+
+      for (const queue of this.#queues) queue.push(result.value);
+
+      this.#replay.push(result.value);
+      if (this.#replay.length > this.#replaySize) this.#replay.shift();
+    }, (error) => {
+      this.#finished = true;
+      this.#failure = { error };
+    }).finally(() => {
+      this.#pulling = undefined;
+    });
+  }
+
+  /**
+   * Removes the subscriber, closing the shared iterator once there are none left.
+   */
+  async #unsubscribe(queue: T[]): Promise<void> {
+    if (!this.#queues.delete(queue)) return;
+    this.#notify();
+
+    if (this.#queues.size === 0 && !this.#finished) {
+      this.#finished = true;
+      await this.#source.return();
+    }
+  }
+}
+
+/**
+ * Creates an async iterator of the items of an iterable, awaiting the items of synchronous
+ * iterables.
+ */
+function iteratorOf<T>(iterable: MaybeAsyncIterable<T>): AsyncIterator<T> {
+  if (
+    typeof (iterable as AsyncIterable<T>)[Symbol.asyncIterator] === "function"
+  ) {
+    return (iterable as AsyncIterable<T>)[Symbol.asyncIterator]();
+  }
+
+  return async function* () {
+    yield* iterable;
+  }();
+}
+
+/**
+ * Starts a task, capturing anything it throws in the returned promise. The promise is marked as
+ * handled so a task failing while another one is being awaited isn't reported as an unhandled
+ * rejection, the failure still surfaces once the task itself is awaited.
+ */
+function spawn<T>(task: () => Promise<T>): Promise<T> {
+  const promise = new Promise<T>((resolve) => resolve(task()));
+  promise.catch(() => {});
+  return promise;
+}
+
+/**
+ * Closes an iterator without waiting for it, as an async generator with a request in flight only
+ * closes once that request settles.
+ */
+function closeInBackground(iterator: AsyncIterator<unknown>): void {
+  iterator.return?.().catch(() => {});
+}
+
+/**
+ * Yields the items of the iterables produced by the outer iterator as soon as they arrive, reading
+ * from at most limit iterables at once and using the strategy to pick between iterables that have
+ * items ready.
+ */
+async function* interleave<T>(
+  outer: AsyncIterator<MaybeAsyncIterable<T>>,
+  limit: number,
+  strategy: SelectStrategy,
+): AsyncGenerator<T> {
+  // Iterables are identified by the order they were produced in, which the strategy relies on.
+  const sources = new Map<number, InterleavedSource<T>>();
+  let nextId = 0;
+  let lastId = -1;
+
+  let outerPending = false;
+  let outerDone = false;
+
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+
+  const fail = (error: unknown) => {
+    failure ??= { error };
+    notify();
+  };
+
+  // Every iterable reads one item ahead of the one waiting to be yielded, so an iterable that
+  // keeps up with the consumer always has an item ready when the strategy picks between them.
+  const fill = (source: InterleavedSource<T>) => {
+    const last = source.queue[source.queue.length - 1];
+    if (source.pending || source.queue.length >= 2 || last?.done) return;
+
+    source.pending = true;
+    source.iterator.next().then((result) => {
+      source.pending = false;
+      source.queue.push(result);
+      fill(source);
+      notify();
+    }, fail);
+  };
+
+  // Starts reading from the next iterable as soon as there is room for it.
+  const pullOuter = () => {
+    if (outerDone || outerPending || sources.size >= limit) return;
+
+    outerPending = true;
+    outer.next().then((result) => {
+      outerPending = false;
+
+      if (result.done) {
+        outerDone = true;
+      } else {
+        const source: InterleavedSource<T> = {
+          iterator: iteratorOf(result.value),
+          queue: [],
+          pending: false,
+        };
+
+        sources.set(nextId++, source);
+        fill(source);
+        pullOuter();
+      }
+
+      notify();
+    }, fail);
+  };
+
+  try {
+    pullOuter();
+
+    while (true) {
+      if (outerDone && sources.size === 0) return;
+
+      // Biased always picks the oldest iterable, round robin picks the first one after the
+      // iterable we last yielded from and wraps around to the oldest.
+      let oldest: number | undefined;
+      let afterLast: number | undefined;
+
+      for (const [id, source] of sources) {
+        if (source.queue.length === 0) continue;
+
+        oldest ??= id;
+        if (id > lastId) afterLast ??= id;
+      }
+
+      if (failure === undefined && oldest === undefined) {
+        await new Promise<void>((resolve) => wake = resolve);
+        continue;
+      }
+
+      if (failure !== undefined) throw failure.error;
+
+      const id = strategy === "biased" ? oldest! : afterLast ?? oldest!;
+      const source = sources.get(id)!;
+      const result = source.queue.shift()!;
+
+      if (result.done) {
+        sources.delete(id);
+        pullOuter();
+        continue;
+      }
+
+      lastId = id;
+      fill(source);
+      yield result.value;
+    }
+  } finally {
+    if (!outerDone) closeInBackground(outer);
+
+    for (const source of sources.values()) {
+      const last = source.queue[source.queue.length - 1];
+      if (!last?.done) closeInBackground(source.iterator);
+    }
+  }
+}
+
+/**
+ * An iterable being read from by {@link interleave}.
+ */
+interface InterleavedSource<T> {
+  iterator: AsyncIterator<T>;
+  queue: IteratorResult<T>[];
+  pending: boolean;
+}
+
+/**
+ * Yields the items of the iterator until the signal is aborted, then closes the iterator and either
+ * ends or rejects with the signal's reason.
+ */
+async function* untilAborted<T>(
+  iter: AsyncIterator<T>,
+  signal: AbortSignal,
+  rejects: boolean,
+): AsyncGenerator<T> {
+  let done = false;
+  // If the signal was aborted while waiting for an item, that request is still in flight.
+  let interrupted = false;
+  let onAbort!: () => void;
+  const aborted = new Promise<undefined>((resolve) => {
+    onAbort = () => resolve(undefined);
+  });
+  signal.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    while (!signal.aborted) {
+      const result = await Promise.race([iter.next(), aborted]);
+      if ((interrupted = result === undefined)) break;
+
+      if ((done = result.done ?? true)) return;
+      yield result.value;
+    }
+
+    if (rejects) throw signal.reason;
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+
+    if (interrupted) {
+      closeInBackground(iter);
+    } else if (!done) {
+      await iter.return?.();
+    }
   }
 }
@@ -0,0 +1,163 @@
+/**
+ * What {@link Sender.send} does when the channel already holds as many items as its capacity.
+ * - `block` waits until the receiver has read an item.
+ * - `dropOldest` forgets the oldest unread item to make room.
+ * - `dropNewest` forgets the item being sent, so sending it resolves to false.
+ * - `error` rejects with a {@link ChannelFullError}.
+ */
+export type OverflowStrategy = "block" | "dropOldest" | "dropNewest" | "error";
+
+/**
+ * Options for {@link AsyncIter.channel} and {@link AsyncIter.fromCallback}.
+ */
+export interface ChannelOptions {
+  /**
+   * How many unread items the channel holds, unlimited if not provided.
+   */
+  capacity?: number;
+  /**
+   * What to do with items sent while the channel is full, `block` if not provided.
+   */
+  overflow?: OverflowStrategy;
+}
+
+/**
+ * The sending half of a channel. Its methods don't depend on `this`, so they can be passed around
+ * as callbacks.
+ */
+export interface Sender<T> {
+  /**
+   * Sends an item to the receiver, waiting for room first if the channel is full and blocks.
+   * @param value the item to send.
+   * @returns a promise resolving to true once the item is queued for the receiver, or false if the
+   * channel was closed or the item was dropped, so it will never be read.
+   */
+  send(value: T): Promise<boolean>;
+
+  /**
+   * Ends the iterator once the receiver has read the items already sent.
+   */
+  close(): void;
+
+  /**
+   * Fails the iterator with the provided error once the receiver has read the items already sent.
+   * @param error the error thrown by the iterator.
+   */
+  error(error: unknown): void;
+}
+
+/**
+ * Thrown by {@link Sender.send} when the channel is full and overflowing is an error.
+ */
+export class ChannelFullError extends Error {
+  /**
+   * @param capacity how many unread items the channel holds.
+   */
+  constructor(readonly capacity: number) {
+    super(`channel is full with ${capacity} unread items`);
+    this.name = "ChannelFullError";
+  }
+}
+
+/**
+ * Creates a channel, where the items sent through the sender are read in order from the receiver.
+ * Closing the receiver closes the channel, dropping unread items and unblocking waiting senders.
+ * @param options the capacity of the channel and what to do when it's full.
+ * @returns the sender and receiver of the channel.
+ */
+export function channel<T>(
+  options: ChannelOptions = {},
+): [Sender<T>, AsyncIterator<T>] {
+  const capacity = options.capacity ?? Infinity;
+  const overflow = options.overflow ?? "block";
+  if (capacity < 1) throw new RangeError("capacity must be at least 1");
+
+  const queue: T[] = [];
+  // Senders waiting for room, in the order they were called.
+  const blocked: { value: T; resolve: (sent: boolean) => void }[] = [];
+  let closed = false;
+  let failure: { error: unknown } | undefined;
+  // Set once the receiver has been closed, after which nothing will be read.
+  let dropped = false;
+  let wake: (() => void)[] = [];
+
+  const notify = () => {
+    const waiting = wake;
+    wake = [];
+    waiting.forEach((resolve) => resolve());
+  };
+
+  const end = (error?: { error: unknown }) => {
+    if (closed) return;
+
+    closed = true;
+    failure = error;
+    notify();
+  };
+
+  const sender: Sender<T> = {
+    send: (value) => {
+      if (closed) return Promise.resolve(false);
+
+      if (queue.length < capacity) {
+        queue.push(value);
+        notify();
+        return Promise.resolve(true);
+      }
+
+      switch (overflow) {
+        case "block":
+          return new Promise((resolve) => blocked.push({ value, resolve }));
+        case "dropOldest":
+          queue.shift();
+          queue.push(value);
+          return Promise.resolve(true);
+        case "dropNewest":
+          return Promise.resolve(false);
+        case "error":
+          return Promise.reject(new ChannelFullError(capacity));
+      }
+    },
+    close: () => end(),
+    error: (error) => end({ error }),
+  };
+
+  const receiver: AsyncIterator<T> = {
+    next: async () => {
+      while (true) {
+        if (dropped) return { done: true, value: undefined };
+
+        if (queue.length > 0) {
+          const value = queue.shift()!;
+
+          // Let the longest waiting sender take the freed up room.
+          const sender = blocked.shift();
+          if (sender) {
+            queue.push(sender.value);
+            sender.resolve(true);
+          }
+
+          return { done: false, value };
+        }
+
+        if (closed) {
+          dropped = true;
+          if (failure) throw failure.error;
+          return { done: true, value: undefined };
+        }
+
+        await new Promise<void>((resolve) => wake.push(resolve));
+      }
+    },
+    return: (value?: unknown) => {
+      dropped = closed = true;
+      queue.length = 0;
+      blocked.splice(0).forEach((sender) => sender.resolve(false));
+      notify();
+
+      return Promise.resolve({ done: true, value });
+    },
+  };
+
+  return [sender, receiver];
+}
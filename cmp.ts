@@ -0,0 +1,18 @@
+/**
+ * Orders two values, returning a negative number if a comes before b, a positive number if a comes
+ * after b and zero if they are equal.
+ */
+export type Comparator<T> = (a: T, b: T) => number;
+
+/**
+ * Orders values with the `<` and `>` operators, which orders numbers, bigints and strings
+ * naturally.
+ * @param a the first value.
+ * @param b the second value.
+ * @returns -1 if a comes before b, 1 if a comes after b and 0 otherwise.
+ */
+export function defaultCompare<T>(a: T, b: T): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
@@ -0,0 +1,18 @@
+/**
+ * Describes how to gather the items of an iterator into a container, for use with
+ * {@link Iter.collectInto} and {@link AsyncIter.collectInto}.
+ */
+export interface Collector<T, C> {
+  /**
+   * @returns an empty container.
+   */
+  create(): C;
+
+  /**
+   * Adds an item to the container.
+   * @param container the container holding the items added so far.
+   * @param item the item to add.
+   * @returns the container holding the item, which may be a new one for immutable containers.
+   */
+  add(container: C, item: T): C;
+}
@@ -0,0 +1,212 @@
+import type { Iter } from "./sync.ts";
+
+/**
+ * Buffers the items of an iterator as they're needed, so combinations can revisit earlier items
+ * without reading the whole iterator upfront.
+ */
+export class LazyBuffer<T> {
+  readonly items: T[] = [];
+  #source: Iter<T>;
+  #done = false;
+
+  constructor(source: Iter<T>) {
+    this.#source = source;
+  }
+
+  /**
+   * Pulls items from the iterator until the buffer holds the provided number of items.
+   * @param count how many items the buffer should hold.
+   * @returns true if the buffer holds at least that many items.
+   */
+  fill(count: number): boolean {
+    while (this.items.length < count && !this.#done) {
+      const result = this.#source.next();
+
+      if (result.done) this.#done = true;
+      else this.items.push(result.value);
+    }
+
+    return this.items.length >= count;
+  }
+
+  /**
+   * @returns how many items the iterator has in total, or undefined if that isn't known yet.
+   */
+  size(): number | undefined {
+    if (this.#done) return this.items.length;
+
+    const [lower, upper] = this.#source.sizeHint();
+    return lower === upper ? this.items.length + lower : undefined;
+  }
+
+  /**
+   * Closes the iterator if it still has items.
+   */
+  close(): void {
+    if (!this.#done) this.#source.return();
+  }
+}
+
+/**
+ * Yields the cartesian product of the buffered items of every pool, advancing the last pool
+ * fastest and pulling items into each pool only once they're needed.
+ * @param pools the buffered items of each iterable.
+ */
+export function* product(pools: LazyBuffer<unknown>[]) {
+  if (!pools.every((pool) => pool.fill(1))) return;
+
+  const indices = pools.map(() => 0);
+
+  while (true) {
+    yield pools.map((pool, i) => pool.items[indices[i]]);
+
+    let i = pools.length - 1;
+
+    for (; i >= 0; i--) {
+      if (pools[i].fill(++indices[i] + 1)) break;
+      indices[i] = 0;
+    }
+
+    if (i < 0) return;
+  }
+}
+
+/**
+ * Yields every combination of k buffered items, pulling items into the buffer only once the
+ * combinations of the items before them have been yielded.
+ * @param pool the buffered items.
+ * @param k how many items are in each combination.
+ */
+export function* combinations<T>(pool: LazyBuffer<T>, k: number) {
+  if (!pool.fill(k)) return;
+
+  const items = pool.items;
+  const indices = Array.from({ length: k }, (_, index) => index);
+
+  while (true) {
+    yield indices.map((index) => items[index]);
+
+    // Only read another item once the last index has reached the end of the buffer.
+    if (k > 0 && indices[k - 1] === items.length - 1) {
+      pool.fill(items.length + 1);
+    }
+
+    let i = k - 1;
+    while (i >= 0 && indices[i] === i + items.length - k) i--;
+    if (i < 0) return;
+
+    indices[i]++;
+    for (let j = i + 1; j < k; j++) indices[j] = indices[j - 1] + 1;
+  }
+}
+
+/**
+ * Yields every combination of k buffered items where items may be picked more than once.
+ * @param pool the buffered items.
+ * @param k how many items are in each combination.
+ */
+export function* combinationsWithReplacement<T>(
+  pool: LazyBuffer<T>,
+  k: number,
+) {
+  if (k > 0 && !pool.fill(1)) return;
+
+  const items = pool.items;
+  const indices: number[] = Array(k).fill(0);
+
+  while (true) {
+    yield indices.map((index) => items[index]);
+
+    if (k > 0 && indices[k - 1] === items.length - 1) {
+      pool.fill(items.length + 1);
+    }
+
+    let i = k - 1;
+    while (i >= 0 && indices[i] === items.length - 1) i--;
+    if (i < 0) return;
+
+    indices.fill(indices[i] + 1, i);
+  }
+}
+
+/**
+ * Yields every ordering of k items out of all the buffered items, in lexicographic order of their
+ * positions.
+ * @param pool the buffered items, which are read in full before the first permutation.
+ * @param k how many items are in each permutation, all of them if not provided.
+ */
+export function* permutations<T>(pool: LazyBuffer<T>, k?: number) {
+  pool.fill(Infinity);
+
+  const items = pool.items;
+  const n = items.length;
+  const r = k ?? n;
+  if (r > n) return;
+
+  const indices = Array.from({ length: n }, (_, index) => index);
+  const cycles = Array.from({ length: r }, (_, index) => n - index);
+
+  yield indices.slice(0, r).map((index) => items[index]);
+
+  while (true) {
+    let i = r - 1;
+
+    for (; i >= 0; i--) {
+      cycles[i]--;
+
+      if (cycles[i] === 0) {
+        // Rotate the index to the end once it has been swapped with every index after it.
+        indices.push(...indices.splice(i, 1));
+        cycles[i] = n - i;
+        continue;
+      }
+
+      const j = n - cycles[i];
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+      yield indices.slice(0, r).map((index) => items[index]);
+      break;
+    }
+
+    if (i < 0) return;
+  }
+}
+
+/**
+ * Yields every subset of the buffered items, from smallest to largest.
+ * @param pool the buffered items.
+ */
+export function* powerset<T>(pool: LazyBuffer<T>) {
+  for (let k = 0; pool.fill(k); k++) {
+    yield* combinations(pool, k);
+  }
+}
+
+/**
+ * @returns the number of ways to pick k items out of n, ignoring their order.
+ */
+export function binomial(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+
+  let result = 1;
+
+  for (let i = 0; i < Math.min(k, n - k); i++) {
+    result = result * (n - i) / (i + 1);
+  }
+
+  return Math.round(result);
+}
+
+/**
+ * @returns the number of ways to pick k items out of n in order.
+ */
+export function arrangements(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+
+  let result = 1;
+
+  for (let i = 0; i < k; i++) {
+    result *= n - i;
+  }
+
+  return result;
+}
@@ -0,0 +1,41 @@
+/**
+ * Options for {@link Iter.unique} and {@link AsyncIter.unique}.
+ */
+export interface UniqueOptions {
+  /**
+   * How many distinct keys are remembered, unlimited if not provided. Once full the least recently
+   * seen key is forgotten, so an item repeating after that is yielded again.
+   */
+  capacity?: number;
+}
+
+/**
+ * A set that forgets its least recently used value once it holds more than its capacity.
+ */
+export class LruSet<T> {
+  #values = new Set<T>();
+  #capacity: number;
+
+  constructor(capacity = Infinity) {
+    if (capacity < 1) throw new RangeError("capacity must be at least 1");
+
+    this.#capacity = capacity;
+  }
+
+  /**
+   * Adds the value to the set, marking it as the most recently used value.
+   * @param value the value to add.
+   * @returns true if the value wasn't already in the set.
+   */
+  add(value: T): boolean {
+    // Sets keep insertion order, so re-adding moves the value to the most recently used end.
+    const existed = this.#values.delete(value);
+    this.#values.add(value);
+
+    if (this.#values.size > this.#capacity) {
+      this.#values.delete(this.#values.values().next().value as T);
+    }
+
+    return !existed;
+  }
+}
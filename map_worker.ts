@@ -0,0 +1,16 @@
+import { serveMap } from "./workers.ts";
+
+// The entry point of the Web Workers started by spawnWebWorker.
+const scope = globalThis as unknown as {
+  postMessage(message: unknown, transfer: ArrayBuffer[]): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void,
+  ): void;
+};
+
+serveMap({
+  postMessage: (message, transfer) => scope.postMessage(message, transfer),
+  listen: (listener) =>
+    scope.addEventListener("message", (event) => listener(event.data)),
+});
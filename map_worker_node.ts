@@ -0,0 +1,9 @@
+import { parentPort } from "node:worker_threads";
+import { serveMap } from "./workers.ts";
+
+// The entry point of the worker_threads workers started by spawnNodeWorker.
+serveMap({
+  postMessage: (message, transfer) =>
+    parentPort!.postMessage(message, transfer),
+  listen: (listener) => parentPort!.on("message", listener),
+});
@@ -1,2 +1,44 @@
-export { Iter } from "./sync.ts";
-export { AsyncIter } from "./async.ts";
+export {
+  ChunksExactIter,
+  DoubleEndedIter,
+  Iter,
+  PeekableIter,
+} from "./sync.ts";
+export type { DoubleEndedIterator, SizeHint, TeeOptions } from "./sync.ts";
+export {
+  AsyncIter,
+  ChunksExactAsyncIter,
+  PeekableAsyncIter,
+  SharedAsyncIter,
+} from "./async.ts";
+export type {
+  AbortOptions,
+  ForEachConcurrentOptions,
+  MaybeAsyncIterable,
+  SelectStrategy,
+  ShareOptions,
+} from "./async.ts";
+export { ChannelFullError } from "./channel.ts";
+export type { ChannelOptions, OverflowStrategy, Sender } from "./channel.ts";
+export { defaultCompare } from "./cmp.ts";
+export type { Comparator } from "./cmp.ts";
+export type { Collector } from "./collect.ts";
+export type { UniqueOptions } from "./lru.ts";
+export type { AsyncOperator, Operator } from "./operators/types.ts";
+export { err, ok } from "./result.ts";
+export type { AsyncRetryPolicy, Result, RetryPolicy } from "./result.ts";
+export type { EitherOrBoth } from "./sorted.ts";
+export { ParseError } from "./text.ts";
+export type { ParseCsvOptions, ToCsvOptions } from "./text.ts";
+export { Metrics } from "./stage.ts";
+export type { Instrumentation, Stage, StageMetrics } from "./stage.ts";
+export { systemScheduler, TimeoutError, VirtualScheduler } from "./time.ts";
+export type { Scheduler, TimeOptions } from "./time.ts";
+export { serveMap, spawnWebWorker, WorkerError } from "./workers.ts";
+export type {
+  MapInWorkersOptions,
+  WorkerHandle,
+  WorkerListener,
+  WorkerPort,
+  WorkerSpawner,
+} from "./workers.ts";
@@ -0,0 +1,79 @@
+import { assertEquals } from "https://deno.land/std@0.97.0/testing/asserts.ts";
+import { Readable, Writable } from "node:stream";
+import { AsyncIter } from "./async.ts";
+import {
+  fromNodeReadable,
+  pipeToNodeWritable,
+  spawnNodeWorker,
+  toNodeReadable,
+} from "./node.ts";
+
+async function* sequentialIntegers(start = 1, end = 10) {
+  for (let i = start; i <= end; i++) {
+    yield i;
+  }
+}
+
+Deno.test({
+  name: "fromNodeReadable iter",
+  async fn() {
+    const items = await fromNodeReadable<number>(Readable.from([1, 2, 3]))
+      .mapSync((x) => x * 2)
+      .collect();
+
+    assertEquals(items, [2, 4, 6]);
+  },
+});
+
+Deno.test({
+  name: "toNodeReadable iter",
+  async fn() {
+    const items: number[] = [];
+
+    for await (
+      const item of toNodeReadable(new AsyncIter(sequentialIntegers(1, 3)))
+    ) {
+      items.push(item);
+    }
+
+    assertEquals(items, [1, 2, 3]);
+  },
+});
+
+Deno.test({
+  name: "pipeToNodeWritable iter",
+  async fn() {
+    const written: number[] = [];
+    const writable = new Writable({
+      objectMode: true,
+      highWaterMark: 1,
+      write(chunk, _encoding, callback) {
+        written.push(chunk);
+        setTimeout(callback, 1);
+      },
+    });
+
+    await pipeToNodeWritable(
+      new AsyncIter(sequentialIntegers(1, 5)),
+      writable,
+    );
+
+    assertEquals(written, [1, 2, 3, 4, 5]);
+    assertEquals(writable.writableFinished, true);
+  },
+});
+
+Deno.test({
+  name: "mapInWorkers iter with node workers",
+  async fn() {
+    const items = await new AsyncIter(sequentialIntegers(1, 3))
+      .mapInWorkers<number>(
+        new URL("./testdata/workers.ts", import.meta.url),
+        "square",
+        { workers: 2, spawn: spawnNodeWorker },
+      )
+      .collect();
+
+    assertEquals(items, [1, 4, 9]);
+  },
+});
@@ -0,0 +1,73 @@
+import { Readable } from "node:stream";
+import type { PipelineOptions, ReadableOptions, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { Worker } from "node:worker_threads";
+import { AsyncIter } from "./async.ts";
+import { moduleUrl } from "./runtime.deno.ts";
+import type { WorkerSpawner } from "./workers.ts";
+
+/**
+ * Converts a Node {@link Readable} into an {@link AsyncIter}, destroying the stream if the iterator
+ * is closed before the stream ends.
+ * @param readable the stream to read from.
+ * @returns a {@link AsyncIter} of the chunks read from the stream.
+ */
+export function fromNodeReadable<T = unknown>(
+  readable: Readable,
+): AsyncIter<T> {
+  return new AsyncIter(readable[Symbol.asyncIterator]());
+}
+
+/**
+ * Converts an iterator into a Node {@link Readable} that reads items as the stream is read from,
+ * closing the iterator if the stream is destroyed.
+ * @param iter the iterator to read items from.
+ * @param options options for the created stream, it is in object mode by default.
+ * @returns a {@link Readable} of the items in the iterator.
+ */
+export function toNodeReadable<T>(
+  iter: AsyncIterable<T>,
+  options?: ReadableOptions,
+): Readable {
+  return Readable.from(iter, options);
+}
+
+/**
+ * Writes every item in the iterator to a Node {@link Writable}, waiting for the stream to drain
+ * when it is full and ending it once the iterator is exhausted.
+ * @param iter the iterator to read items from.
+ * @param writable the stream to write items to.
+ * @param options a signal that stops writing and whether to end the stream afterwards.
+ */
+export function pipeToNodeWritable<T>(
+  iter: AsyncIterable<T>,
+  writable: Writable,
+  options: PipelineOptions = {},
+): Promise<void> {
+  return pipeline(iter, writable, options);
+}
+
+/**
+ * Starts a `worker_threads` worker running {@link serveMap}, to be passed as the `spawn` option of
+ * {@link AsyncIter.mapInWorkers} in Node.
+ */
+export const spawnNodeWorker: WorkerSpawner = (listener) => {
+  const worker = new Worker(moduleUrl("map_worker_node"));
+  let terminated = false;
+
+  worker.on("message", (data) => listener.message(data));
+  worker.on("error", (error) => listener.error(error));
+  worker.on("exit", (code) => {
+    if (!terminated) {
+      listener.error(new Error(`worker exited with code ${code}`));
+    }
+  });
+
+  return {
+    postMessage: (message, transfer) => worker.postMessage(message, transfer),
+    terminate: () => {
+      terminated = true;
+      worker.terminate();
+    },
+  };
+};
@@ -0,0 +1,168 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.97.0/testing/asserts.ts";
+import { AsyncIter } from "./async.ts";
+import {
+  enumerate,
+  enumerateAsync,
+  filter,
+  filterAsync,
+  flatMap,
+  flatMapAsync,
+  inspect,
+  inspectAsync,
+  map,
+  mapAsync,
+  pipe,
+  skip,
+  skipAsync,
+  skipWhile,
+  skipWhileAsync,
+  take,
+  takeAsync,
+  takeWhile,
+  takeWhileAsync,
+} from "./operators/mod.ts";
+import type { Operator } from "./operators/mod.ts";
+import { Iter } from "./sync.ts";
+
+function* sequentialIntegers(start = 1, end = 10) {
+  for (let i = start; i <= end; i++) {
+    yield i;
+  }
+}
+
+async function* sequentialIntegersAsync(start = 1, end = 10) {
+  for (let i = start; i <= end; i++) {
+    yield i;
+  }
+}
+
+Deno.test({
+  name: "operators on plain iterables",
+  fn() {
+    const seen: number[] = [];
+
+    assertEquals([...map((x: number) => x * 2)([1, 2, 3])], [2, 4, 6]);
+    assertEquals([...filter((x: number) => x % 2 === 0)([1, 2, 3, 4])], [
+      2,
+      4,
+    ]);
+    assertEquals([...skip(2)([1, 2, 3])], [3]);
+    assertEquals([...takeWhile((x: number) => x < 3)([1, 2, 3, 1])], [1, 2]);
+    assertEquals([...skipWhile((x: number) => x < 3)([1, 2, 3, 1])], [3, 1]);
+    assertEquals([...enumerate()(["a", "b"])], [[0, "a"], [1, "b"]]);
+    assertEquals([...flatMap((x: number) => [x, x])([1, 2])], [1, 1, 2, 2]);
+    assertEquals([...inspect((x: number) => seen.push(x))([1, 2])], [1, 2]);
+    assertEquals(seen, [1, 2]);
+  },
+});
+
+Deno.test({
+  name: "take operator closes source",
+  fn() {
+    let closed = false;
+    const source = function* () {
+      try {
+        yield* sequentialIntegers(1, Infinity);
+      } finally {
+        closed = true;
+      }
+    }();
+
+    assertEquals([...take<number>(2)(source)], [1, 2]);
+    assertEquals(closed, true);
+  },
+});
+
+Deno.test({
+  name: "async operators",
+  async fn() {
+    const seen: number[] = [];
+    const items = await new AsyncIter(sequentialIntegersAsync(1, Infinity))
+      .pipe(
+        mapAsync((x) => Promise.resolve(x * 2)),
+        filterAsync((x) => x % 3 !== 0),
+        skipAsync(1),
+        skipWhileAsync((x) => x < 8),
+        inspectAsync((x) => {
+          seen.push(x);
+        }),
+        flatMapAsync((x) => sequentialIntegersAsync(x, x + 1)),
+        takeWhileAsync((x) => x < 15),
+        enumerateAsync(),
+        takeAsync(3),
+      )
+      .collect();
+
+    assertEquals(items, [[0, 8], [1, 9], [2, 10]]);
+    assertEquals(seen, [8, 10]);
+  },
+});
+
+Deno.test({
+  name: "pipe iter",
+  fn() {
+    // Custom operators are plain functions, so they mix with the provided ones.
+    const pairs: Operator<number, [number, number]> = function* (source) {
+      let previous: number | undefined;
+
+      for (const item of source) {
+        if (previous !== undefined) yield [previous, item];
+        previous = item;
+      }
+    };
+
+    const items = Iter.range(1, 10)
+      .pipe(
+        map((x) => x * 10),
+        pairs,
+        map(([a, b]) => a + b),
+        take(3),
+      )
+      .collect();
+
+    assertEquals(items, [30, 50, 70]);
+    assertEquals(Iter.from([1, 2]).pipe().collect(), [1, 2]);
+  },
+});
+
+Deno.test({
+  name: "pipe standalone",
+  fn() {
+    const items = pipe(
+      [1, 2, 3, 4],
+      filter((x: number) => x > 1),
+      map((x: number) => `${x}`),
+      (source) => [...source].join(""),
+    );
+
+    assertEquals(items, "234");
+  },
+});
+
+Deno.test({
+  name: "fromNative and toNative iter",
+  fn() {
+    const native = Iter.range(1, 10).toNative().map((x) => x * 2).take(3);
+    const items = Iter.fromNative(native).map((x) => x + 1).collect();
+
+    assertEquals(items, [3, 5, 7]);
+  },
+});
+
+Deno.test({
+  name: "toNative iter throws without native iterators",
+  fn() {
+    const globals = globalThis as { Iterator?: unknown };
+    const native = globals.Iterator;
+    delete globals.Iterator;
+
+    try {
+      assertThrows(() => Iter.range(1, 10).toNative(), TypeError, "Iterator");
+    } finally {
+      globals.Iterator = native;
+    }
+  },
+});
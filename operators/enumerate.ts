@@ -0,0 +1,29 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Tags every item with its index.
+ * @returns an {@link Operator} yielding items and their index.
+ */
+export function enumerate<T>(): Operator<T, [number, T]> {
+  return function* (source) {
+    let index = 0;
+
+    for (const item of source) {
+      yield [index++, item] as [number, T];
+    }
+  };
+}
+
+/**
+ * Tags every item of the async iterable with its index.
+ * @returns an {@link AsyncOperator} yielding items and their index.
+ */
+export function enumerateAsync<T>(): AsyncOperator<T, [number, T]> {
+  return async function* (source) {
+    let index = 0;
+
+    for await (const item of source) {
+      yield [index++, item] as [number, T];
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Yields only the items that pass the predicate.
+ * @param predicate if the item should be yielded.
+ * @returns an {@link Operator} yielding the items that passed the predicate.
+ */
+export function filter<T>(predicate: (item: T) => boolean): Operator<T, T> {
+  return function* (source) {
+    for (const item of source) {
+      if (predicate(item)) yield item;
+    }
+  };
+}
+
+/**
+ * Yields only the items that pass the provided, possibly asynchronous, predicate.
+ * @param predicate if the item should be yielded.
+ * @returns an {@link AsyncOperator} yielding the items that passed the predicate.
+ */
+export function filterAsync<T>(
+  predicate: (item: T) => boolean | Promise<boolean>,
+): AsyncOperator<T, T> {
+  return async function* (source) {
+    for await (const item of source) {
+      if (await predicate(item)) yield item;
+    }
+  };
+}
@@ -0,0 +1,36 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Maps every item to an iterable and flattens the results by one level.
+ * @param func a function that maps an item to an iterable of outputs.
+ * @returns an {@link Operator} yielding all the outputs.
+ */
+export function flatMap<T, Output>(
+  func: (item: T) => Iterable<Output>,
+): Operator<T, Output> {
+  return function* (source) {
+    for (const item of source) {
+      yield* func(item);
+    }
+  };
+}
+
+/**
+ * Maps every item to an iterable, synchronous or not, and flattens the results by one level.
+ * @param func a function that maps an item to an iterable of outputs.
+ * @returns an {@link AsyncOperator} yielding all the outputs.
+ */
+export function flatMapAsync<T, Output>(
+  func: (
+    item: T,
+  ) =>
+    | Iterable<Output>
+    | AsyncIterable<Output>
+    | Promise<Iterable<Output> | AsyncIterable<Output>>,
+): AsyncOperator<T, Output> {
+  return async function* (source) {
+    for await (const item of source) {
+      yield* await func(item);
+    }
+  };
+}
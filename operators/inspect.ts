@@ -0,0 +1,32 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Calls the function with every item as it passes through, without changing the items.
+ * @param func the function called with every item.
+ * @returns an {@link Operator} yielding the same items.
+ */
+export function inspect<T>(func: (item: T) => void): Operator<T, T> {
+  return function* (source) {
+    for (const item of source) {
+      func(item);
+      yield item;
+    }
+  };
+}
+
+/**
+ * Calls the provided, possibly asynchronous, function with every item as it passes through,
+ * without changing the items.
+ * @param func the function called with every item.
+ * @returns an {@link AsyncOperator} yielding the same items.
+ */
+export function inspectAsync<T>(
+  func: (item: T) => void | Promise<void>,
+): AsyncOperator<T, T> {
+  return async function* (source) {
+    for await (const item of source) {
+      await func(item);
+      yield item;
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Processes all items with the provided function.
+ * @param func the function to map an item.
+ * @returns an {@link Operator} yielding the outputs of the function.
+ */
+export function map<T, Output>(func: (item: T) => Output): Operator<T, Output> {
+  return function* (source) {
+    for (const item of source) {
+      yield func(item);
+    }
+  };
+}
+
+/**
+ * Processes all items with the provided, possibly asynchronous, function.
+ * @param func the function to map an item.
+ * @returns an {@link AsyncOperator} yielding the outputs of the function.
+ */
+export function mapAsync<T, Output>(
+  func: (item: T) => Output | Promise<Output>,
+): AsyncOperator<T, Output> {
+  return async function* (source) {
+    for await (const item of source) {
+      yield await func(item);
+    }
+  };
+}
@@ -0,0 +1,11 @@
+export { enumerate, enumerateAsync } from "./enumerate.ts";
+export { filter, filterAsync } from "./filter.ts";
+export { flatMap, flatMapAsync } from "./flat_map.ts";
+export { inspect, inspectAsync } from "./inspect.ts";
+export { map, mapAsync } from "./map.ts";
+export { pipe } from "./pipe.ts";
+export { skip, skipAsync } from "./skip.ts";
+export { skipWhile, skipWhileAsync } from "./skip_while.ts";
+export { take, takeAsync } from "./take.ts";
+export { takeWhile, takeWhileAsync } from "./take_while.ts";
+export type { AsyncOperator, Operator } from "./types.ts";
@@ -0,0 +1,107 @@
+/**
+ * Passes the value through every function in order, so standalone operators can be applied to
+ * plain iterables without {@link Iter} or {@link AsyncIter}.
+ * @param source the value passed to the first function.
+ * @param funcs the functions to apply, each receiving the output of the one before it.
+ * @returns the output of the last function.
+ */
+export function pipe<S>(source: S): S;
+export function pipe<S, A>(
+  source: S,
+  f1: (input: S) => A,
+): A;
+export function pipe<S, A, B>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+): B;
+export function pipe<S, A, B, C>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+  f3: (input: B) => C,
+): C;
+export function pipe<S, A, B, C, D>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+  f3: (input: B) => C,
+  f4: (input: C) => D,
+): D;
+export function pipe<S, A, B, C, D, E>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+  f3: (input: B) => C,
+  f4: (input: C) => D,
+  f5: (input: D) => E,
+): E;
+export function pipe<S, A, B, C, D, E, F>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+  f3: (input: B) => C,
+  f4: (input: C) => D,
+  f5: (input: D) => E,
+  f6: (input: E) => F,
+): F;
+export function pipe<S, A, B, C, D, E, F, G>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+  f3: (input: B) => C,
+  f4: (input: C) => D,
+  f5: (input: D) => E,
+  f6: (input: E) => F,
+  f7: (input: F) => G,
+): G;
+export function pipe<S, A, B, C, D, E, F, G, H>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+  f3: (input: B) => C,
+  f4: (input: C) => D,
+  f5: (input: D) => E,
+  f6: (input: E) => F,
+  f7: (input: F) => G,
+  f8: (input: G) => H,
+): H;
+export function pipe<S, A, B, C, D, E, F, G, H, I>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+  f3: (input: B) => C,
+  f4: (input: C) => D,
+  f5: (input: D) => E,
+  f6: (input: E) => F,
+  f7: (input: F) => G,
+  f8: (input: G) => H,
+  f9: (input: H) => I,
+): I;
+export function pipe<S, A, B, C, D, E, F, G, H, I, J>(
+  source: S,
+  f1: (input: S) => A,
+  f2: (input: A) => B,
+  f3: (input: B) => C,
+  f4: (input: C) => D,
+  f5: (input: D) => E,
+  f6: (input: E) => F,
+  f7: (input: F) => G,
+  f8: (input: G) => H,
+  f9: (input: H) => I,
+  f10: (input: I) => J,
+): J;
+export function pipe(
+  source: unknown,
+  ...funcs: ((input: never) => unknown)[]
+): unknown;
+export function pipe(
+  source: unknown,
+  ...funcs: ((input: never) => unknown)[]
+): unknown {
+  // Each function receives the output of the one before it, which the overloads check.
+  return funcs.reduce(
+    (value, func) => (func as (input: unknown) => unknown)(value),
+    source,
+  );
+}
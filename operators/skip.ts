@@ -0,0 +1,33 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Skips the first n items of the iterable.
+ * @param items the number of items to skip.
+ * @returns an {@link Operator} yielding the items after the first n.
+ */
+export function skip<T>(items: number): Operator<T, T> {
+  return function* (source) {
+    let count = 0;
+
+    for (const item of source) {
+      if (++count <= items) continue;
+      yield item;
+    }
+  };
+}
+
+/**
+ * Skips the first n items of the async iterable.
+ * @param items the number of items to skip.
+ * @returns an {@link AsyncOperator} yielding the items after the first n.
+ */
+export function skipAsync<T>(items: number): AsyncOperator<T, T> {
+  return async function* (source) {
+    let count = 0;
+
+    for await (const item of source) {
+      if (++count <= items) continue;
+      yield item;
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Skips items while they pass the predicate, yielding every item from the first one that doesn't.
+ * @param predicate if the item should be skipped.
+ * @returns an {@link Operator} yielding the items without the leading ones that passed the
+ * predicate.
+ */
+export function skipWhile<T>(predicate: (item: T) => boolean): Operator<T, T> {
+  return function* (source) {
+    let skipping = true;
+
+    for (const item of source) {
+      if (skipping && predicate(item)) continue;
+      skipping = false;
+      yield item;
+    }
+  };
+}
+
+/**
+ * Skips items while they pass the provided, possibly asynchronous, predicate, yielding every item
+ * from the first one that doesn't.
+ * @param predicate if the item should be skipped.
+ * @returns an {@link AsyncOperator} yielding the items without the leading ones that passed the
+ * predicate.
+ */
+export function skipWhileAsync<T>(
+  predicate: (item: T) => boolean | Promise<boolean>,
+): AsyncOperator<T, T> {
+  return async function* (source) {
+    let skipping = true;
+
+    for await (const item of source) {
+      if (skipping && await predicate(item)) continue;
+      skipping = false;
+      yield item;
+    }
+  };
+}
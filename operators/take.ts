@@ -0,0 +1,44 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Limits the iterable to n items, closing it once the limit is reached.
+ * @param limit how many items to limit the iterable to.
+ * @returns an {@link Operator} yielding at most n items.
+ */
+export function take<T>(limit: number): Operator<T, T> {
+  return function* (source) {
+    if (limit <= 0) {
+      source[Symbol.iterator]().return?.();
+      return;
+    }
+
+    let count = 0;
+
+    for (const item of source) {
+      yield item;
+      // Stop before pulling the next item so the source isn't advanced past the limit.
+      if (++count >= limit) break;
+    }
+  };
+}
+
+/**
+ * Limits the async iterable to n items, closing it once the limit is reached.
+ * @param limit how many items to limit the iterable to.
+ * @returns an {@link AsyncOperator} yielding at most n items.
+ */
+export function takeAsync<T>(limit: number): AsyncOperator<T, T> {
+  return async function* (source) {
+    if (limit <= 0) {
+      await source[Symbol.asyncIterator]().return?.();
+      return;
+    }
+
+    let count = 0;
+
+    for await (const item of source) {
+      yield item;
+      if (++count >= limit) break;
+    }
+  };
+}
@@ -0,0 +1,32 @@
+import type { AsyncOperator, Operator } from "./types.ts";
+
+/**
+ * Yields items while they pass the predicate, ending at the first item that doesn't.
+ * @param predicate if the iterable should keep yielding items.
+ * @returns an {@link Operator} yielding the leading items that passed the predicate.
+ */
+export function takeWhile<T>(predicate: (item: T) => boolean): Operator<T, T> {
+  return function* (source) {
+    for (const item of source) {
+      if (!predicate(item)) return;
+      yield item;
+    }
+  };
+}
+
+/**
+ * Yields items while they pass the provided, possibly asynchronous, predicate, ending at the first
+ * item that doesn't.
+ * @param predicate if the iterable should keep yielding items.
+ * @returns an {@link AsyncOperator} yielding the leading items that passed the predicate.
+ */
+export function takeWhileAsync<T>(
+  predicate: (item: T) => boolean | Promise<boolean>,
+): AsyncOperator<T, T> {
+  return async function* (source) {
+    for await (const item of source) {
+      if (!(await predicate(item))) return;
+      yield item;
+    }
+  };
+}
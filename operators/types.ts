@@ -0,0 +1,13 @@
+/**
+ * A standalone adapter for synchronous iterables, which can be passed to {@link Iter.pipe} or
+ * applied to any iterable directly.
+ */
+export type Operator<T, U> = (source: Iterable<T>) => Iterable<U>;
+
+/**
+ * A standalone adapter for asynchronous iterables, which can be passed to {@link AsyncIter.pipe} or
+ * applied to any async iterable directly.
+ */
+export type AsyncOperator<T, U> = (
+  source: AsyncIterable<T>,
+) => AsyncIterable<U>;
@@ -0,0 +1,56 @@
+import type { TimeOptions } from "./time.ts";
+
+/**
+ * The outcome of an operation that can fail, holding either its value or the error it failed with.
+ * Modelled after {@link https://doc.rust-lang.org/stable/std/result/enum.Result.html}.
+ */
+export type Result<T, E = unknown> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
+
+/**
+ * Creates a successful {@link Result}.
+ * @param value the value of the operation.
+ * @returns a {@link Result} holding the value.
+ */
+export function ok<T>(value: T): Result<T, never> {
+  return { ok: true, value };
+}
+
+/**
+ * Creates a failed {@link Result}.
+ * @param error the error the operation failed with.
+ * @returns a {@link Result} holding the error.
+ */
+export function err<E>(error: E): Result<never, E> {
+  return { ok: false, error };
+}
+
+/**
+ * Describes how many times a failed function is run again for the same item.
+ */
+export interface RetryPolicy {
+  /**
+   * The most times the function is run for a single item, including the first attempt.
+   */
+  attempts: number;
+
+  /**
+   * Decides if a failure should be retried, every failure is retried if not provided.
+   * @param error the error the attempt failed with.
+   * @param attempt the number of the attempt that failed, starting at 1.
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Describes how many times and how soon a failed async function is run again for the same item.
+ */
+export interface AsyncRetryPolicy extends RetryPolicy, TimeOptions {
+  /**
+   * How many milliseconds to wait before the next attempt, the next attempt is made immediately
+   * if not provided.
+   * @param attempt the number of the attempt that failed, starting at 1.
+   */
+  delay?: (attempt: number) => number;
+}
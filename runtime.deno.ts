@@ -0,0 +1,37 @@
+import { spawnWebWorker } from "./workers.ts";
+import type { WorkerSpawner } from "./workers.ts";
+
+// What mapInWorkers needs from the runtime, see runtime.node.ts for the Node build.
+
+/**
+ * Starts the workers of {@link AsyncIter.mapInWorkers} when no `spawn` option is provided.
+ */
+export const defaultSpawner: WorkerSpawner = (listener) =>
+  spawnWebWorker(listener);
+
+/**
+ * @returns how many workers {@link AsyncIter.mapInWorkers} can start when no `workers` option is
+ * provided, the number of logical processors.
+ */
+export function defaultWorkerCount(): number {
+  return navigator.hardwareConcurrency;
+}
+
+/**
+ * @param name the name of a module next to this one, without its extension.
+ * @returns the URL of the module.
+ */
+export function moduleUrl(name: string): URL {
+  return new URL(`./${name}.ts`, import.meta.url);
+}
+
+/**
+ * Imports the module as an ES module.
+ * @param specifier the URL or path of the module.
+ * @returns a promise resolving to the exports of the module.
+ */
+export function importModule(
+  specifier: string,
+): Promise<Record<string, unknown>> {
+  return import(specifier);
+}
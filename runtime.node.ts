@@ -0,0 +1,47 @@
+import { availableParallelism } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { spawnNodeWorker } from "./node.ts";
+import type { WorkerSpawner } from "./workers.ts";
+
+// What mapInWorkers needs from the runtime in the Node build, where modules are compiled to
+// CommonJS JavaScript files. See runtime.deno.ts for Deno and browsers.
+
+/**
+ * Starts the workers of {@link AsyncIter.mapInWorkers} when no `spawn` option is provided, which
+ * are `worker_threads` workers as Node has no Web Workers.
+ */
+export const defaultSpawner: WorkerSpawner = (listener) =>
+  spawnNodeWorker(listener);
+
+/**
+ * @returns how many workers {@link AsyncIter.mapInWorkers} can start when no `workers` option is
+ * provided, the number of logical processors.
+ */
+export function defaultWorkerCount(): number {
+  return availableParallelism();
+}
+
+/**
+ * @param name the name of a module next to this one, without its extension.
+ * @returns the URL of the module.
+ */
+export function moduleUrl(name: string): URL {
+  return pathToFileURL(join(__dirname, `${name}.js`));
+}
+
+// TypeScript compiles import() to require() for CommonJS, which can't load ES modules or file URLs.
+const dynamicImport = new Function("specifier", "return import(specifier)") as (
+  specifier: string,
+) => Promise<Record<string, unknown>>;
+
+/**
+ * Imports the module as an ES module.
+ * @param specifier the URL or path of the module.
+ * @returns a promise resolving to the exports of the module.
+ */
+export function importModule(
+  specifier: string,
+): Promise<Record<string, unknown>> {
+  return dynamicImport(specifier);
+}
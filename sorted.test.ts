@@ -0,0 +1,19 @@
+import { assertEquals } from "https://deno.land/std@0.97.0/testing/asserts.ts";
+import { defaultCompare } from "./cmp.ts";
+import { Heap } from "./sorted.ts";
+
+Deno.test({
+  name: "heap pops items in order",
+  fn() {
+    const heap = new Heap<number>(defaultCompare);
+    const items = [5, 3, 8, 1, 9, 2, 7, 3, 0, 6];
+
+    for (const item of items) heap.push(item);
+
+    const popped: (number | undefined)[] = [];
+    while (heap.size > 0) popped.push(heap.pop());
+
+    assertEquals(popped, [...items].sort((a, b) => a - b));
+    assertEquals(heap.pop(), undefined);
+  },
+});
@@ -0,0 +1,146 @@
+import type { Comparator } from "./cmp.ts";
+
+/**
+ * An item of {@link Iter.mergeJoinBy}, holding the item of the left iterator, the right iterator or
+ * both when they compared equal.
+ * Modelled after {@link https://docs.rs/itertools/latest/itertools/enum.EitherOrBoth.html}.
+ */
+export type EitherOrBoth<L, R> =
+  | { kind: "left"; left: L }
+  | { kind: "right"; right: R }
+  | { kind: "both"; left: L; right: R };
+
+/**
+ * The next item of one of the sources being merged by {@link Iter.kMergeBy}.
+ */
+export interface SourceHead<T> {
+  value: T;
+  source: number;
+}
+
+/**
+ * Orders the heads of merged sources, keeping items from earlier sources first when they compare
+ * equal so that merging is stable.
+ * @param compare a function that orders two items.
+ * @returns a function that orders two heads.
+ */
+export function compareHeads<T>(
+  compare: Comparator<T>,
+): Comparator<SourceHead<T>> {
+  return (a, b) => compare(a.value, b.value) || a.source - b.source;
+}
+
+/**
+ * One of the two sorted iterators read together by `mergeJoinBy` and the sorted set operations.
+ */
+export interface SortedSide<Next> {
+  /**
+   * Reads the next item of the iterator.
+   */
+  next(): Next;
+
+  /**
+   * Closes the iterator unless it has ended, as nothing more will be read from it.
+   */
+  close(): unknown;
+}
+
+/**
+ * Wraps one of the sorted iterators being combined, remembering whether it has ended so it's only
+ * closed when it still has items.
+ * @param iterator the iterator to read from.
+ * @returns a {@link SortedSide} reading from the iterator.
+ */
+export function sortedSide<T>(
+  iterator: Iterator<T>,
+): SortedSide<IteratorResult<T>>;
+export function sortedSide<T>(
+  iterator: AsyncIterator<T>,
+): SortedSide<Promise<IteratorResult<T>>>;
+export function sortedSide<T>(
+  iterator: Iterator<T> | AsyncIterator<T>,
+): SortedSide<IteratorResult<T> | Promise<IteratorResult<T>>> {
+  let done = false;
+
+  const settle = (result: IteratorResult<T>) => {
+    done = result.done ?? true;
+    return result;
+  };
+
+  return {
+    next: () => {
+      const result = iterator.next();
+      return result instanceof Promise ? result.then(settle) : settle(result);
+    },
+    close: () => done ? undefined : iterator.return?.(),
+  };
+}
+
+/**
+ * A binary min heap ordered by the provided comparator.
+ */
+export class Heap<T> {
+  #items: T[] = [];
+  #compare: Comparator<T>;
+
+  constructor(compare: Comparator<T>) {
+    this.#compare = compare;
+  }
+
+  /**
+   * @returns how many items are in the heap.
+   */
+  get size(): number {
+    return this.#items.length;
+  }
+
+  /**
+   * Adds an item to the heap.
+   * @param item the item to add.
+   */
+  push(item: T): void {
+    const items = this.#items;
+    let index = items.push(item) - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.#compare(items[index], items[parent]) >= 0) break;
+
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  /**
+   * Removes the smallest item from the heap.
+   * @returns the smallest item, or undefined if the heap is empty.
+   */
+  pop(): T | undefined {
+    const items = this.#items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0) return last;
+
+    items[0] = last!;
+    let index = 0;
+
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (
+        left < items.length && this.#compare(items[left], items[smallest]) < 0
+      ) smallest = left;
+      if (
+        right < items.length && this.#compare(items[right], items[smallest]) < 0
+      ) smallest = right;
+      if (smallest === index) break;
+
+      [items[index], items[smallest]] = [items[smallest], items[index]];
+      index = smallest;
+    }
+
+    return top;
+  }
+}
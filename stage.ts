@@ -0,0 +1,226 @@
+/**
+ * Describes an iterator in a pipeline, and the iterators it reads from.
+ */
+export interface Stage {
+  /**
+   * The method or static function that created the iterator, such as `map`, or `source` if it was
+   * created with a constructor.
+   */
+  readonly kind: string;
+  /**
+   * The name given to the iterator with `named`, if any.
+   */
+  name?: string;
+  /**
+   * The stages of the iterators this one reads from.
+   */
+  readonly upstream: readonly Stage[];
+}
+
+/**
+ * Observes the items flowing through the stages of a pipeline, attached with `instrument`.
+ */
+export interface Instrumentation {
+  /**
+   * Called every time an iterator in the pipeline produced an item or finished.
+   * @param stage the stage of the iterator.
+   * @param done if the iterator finished rather than producing an item.
+   * @param duration how many milliseconds the iterator took, including the time spent waiting on
+   * the iterators it reads from.
+   */
+  next(stage: Stage, done: boolean, duration: number): void;
+}
+
+/**
+ * What {@link Metrics} measured for a stage.
+ */
+export interface StageMetrics {
+  /**
+   * How many items the iterators this stage reads from produced.
+   */
+  itemsIn: number;
+  /**
+   * How many items this stage produced.
+   */
+  itemsOut: number;
+  /**
+   * How many milliseconds this stage spent on its own work, mostly running callbacks.
+   */
+  busyTime: number;
+  /**
+   * How many milliseconds this stage spent waiting on the iterators it reads from. Concurrent
+   * stages can wait on several items at once, so this can add up to more than the time that passed.
+   */
+  waitTime: number;
+}
+
+/**
+ * An {@link Instrumentation} that measures how many items pass through every stage and where the
+ * time is spent.
+ */
+export class Metrics implements Instrumentation {
+  #recorded = new Map<Stage, { items: number; time: number }>();
+
+  next(stage: Stage, done: boolean, duration: number): void {
+    const recorded = this.#recorded.get(stage) ?? { items: 0, time: 0 };
+    if (!done) recorded.items++;
+    recorded.time += duration;
+
+    this.#recorded.set(stage, recorded);
+  }
+
+  /**
+   * @param stage the stage to get the metrics of.
+   * @returns what was measured for the stage so far.
+   */
+  get(stage: Stage): StageMetrics {
+    const none = { items: 0, time: 0 };
+    const own = this.#recorded.get(stage) ?? none;
+    const upstream = stage.upstream.map((stage) =>
+      this.#recorded.get(stage) ?? none
+    );
+
+    const waitTime = upstream.reduce((total, { time }) => total + time, 0);
+
+    return {
+      itemsIn: upstream.reduce((total, { items }) => total + items, 0),
+      itemsOut: own.items,
+      busyTime: Math.max(own.time - waitTime, 0),
+      waitTime,
+    };
+  }
+}
+
+const stages = new WeakMap<object, Stage>();
+// The iterator of every stage, so instrumentation can reach the iterators upstream.
+const iterators = new WeakMap<Stage, object>();
+// How the iterators were created, which is only turned into a stage once it's asked for.
+const origins = new WeakMap<object, { kind: string; upstream: unknown[] }>();
+
+/**
+ * Records which method created the iterator and what it reads from, for {@link stageOf}.
+ * @param iter the iterator created by the method.
+ * @param kind the name of the method.
+ * @param upstream the values the iterator reads from, where only iterators become stages.
+ * @returns the same iterator.
+ */
+export function recordStage<I extends object>(
+  iter: I,
+  kind: string,
+  ...upstream: unknown[]
+): I {
+  origins.set(iter, { kind, upstream });
+  return iter;
+}
+
+/**
+ * @param iter an iterator.
+ * @returns the stage of the iterator, which is a `source` if its creation wasn't recorded.
+ */
+export function stageOf(iter: object): Stage {
+  let stage = stages.get(iter);
+
+  if (!stage) {
+    const origin = origins.get(iter);
+    stage = {
+      kind: origin?.kind ?? "source",
+      upstream: origin?.upstream.filter(isIterator).map(stageOf) ?? [],
+    };
+    stages.set(iter, stage);
+    iterators.set(stage, iter);
+  }
+
+  return stage;
+}
+
+/**
+ * Attaches the instrumentation to the iterator and every iterator upstream of it, by replacing
+ * their `next` and `nextBack` methods. Iterators that are already being read from won't be
+ * observed.
+ * @param iter the last iterator of the pipeline.
+ * @param instrumentation notified of every item produced by the iterators.
+ */
+export function instrumentStages(
+  iter: object,
+  instrumentation: Instrumentation,
+): void {
+  const visited = new Set<Stage>();
+
+  const visit = (stage: Stage) => {
+    // An iterator can be upstream of several others in the pipeline, it's only wrapped once.
+    if (visited.has(stage)) return;
+    visited.add(stage);
+    stage.upstream.forEach(visit);
+
+    const iterator = iterators.get(stage) as
+      | Partial<Record<"next" | "nextBack", (...args: unknown[]) => unknown>>
+      | undefined;
+    if (!iterator) return;
+
+    for (const key of ["next", "nextBack"] as const) {
+      const next = iterator[key];
+      if (typeof next !== "function") continue;
+
+      iterator[key] = (...args: unknown[]) => {
+        const start = performance.now();
+        const result = next.apply(iterator, args);
+
+        const record = ({ done }: IteratorResult<unknown>) =>
+          instrumentation.next(stage, done ?? true, performance.now() - start);
+
+        if (result instanceof Promise) {
+          return result.then((result) => {
+            record(result);
+            return result;
+          });
+        }
+
+        record(result as IteratorResult<unknown>);
+        return result;
+      };
+    }
+  };
+
+  visit(stageOf(iter));
+}
+
+/**
+ * Draws the stage and the stages upstream of it as a tree.
+ * @param stage the last stage of the pipeline.
+ * @param metrics what was measured for every stage, which is shown next to it.
+ * @returns the tree, with a line for every stage.
+ */
+export function explainStage(stage: Stage, metrics?: Metrics): string {
+  const lines: string[] = [];
+
+  const visit = (stage: Stage, prefix: string, childPrefix: string) => {
+    let line = prefix + stage.kind;
+    if (stage.name !== undefined) line += ` ${JSON.stringify(stage.name)}`;
+
+    if (metrics) {
+      const { itemsIn, itemsOut, busyTime, waitTime } = metrics.get(stage);
+      line +=
+        `: ${itemsIn} in, ${itemsOut} out, ${busyTime.toFixed(2)}ms busy, ` +
+        `${waitTime.toFixed(2)}ms waiting`;
+    }
+
+    lines.push(line);
+
+    stage.upstream.forEach((upstream, index) => {
+      const last = index === stage.upstream.length - 1;
+      visit(
+        upstream,
+        childPrefix + (last ? "└─ " : "├─ "),
+        childPrefix + (last ? "   " : "│  "),
+      );
+    });
+  };
+
+  visit(stage, "", "");
+  return lines.join("\n");
+}
+
+function isIterator(value: unknown): value is object {
+  return typeof value === "object" && value !== null &&
+    typeof (value as { next?: unknown }).next === "function";
+}
@@ -1,5 +1,10 @@
-import { assertEquals } from "https://deno.land/std@0.97.0/testing/asserts.ts";
-import { Iter } from "./sync.ts";
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.97.0/testing/asserts.ts";
+import { err, ok } from "./result.ts";
+import { Metrics } from "./stage.ts";
+import { DoubleEndedIter, Iter } from "./sync.ts";
 
 function* sequentialIntegers(start = 1, end = 10) {
   for (let i = start; i <= end; i++) {
@@ -187,3 +192,1223 @@ Deno.test({
     );
   },
 });
+
+/**
+ * Wraps the sequential integers in a generator that records when its finally block has run.
+ */
+function trackedIntegers(start = 1, end = 10) {
+  const state = { pulled: 0, closed: false };
+
+  const iter = function* () {
+    try {
+      for (const item of sequentialIntegers(start, end)) {
+        state.pulled++;
+        yield item;
+      }
+    } finally {
+      state.closed = true;
+    }
+  }();
+
+  return [state, iter] as const;
+}
+
+Deno.test({
+  name: "take iter closes source",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const items = new Iter(source).take(2).collect();
+
+    assertEquals(items, [1, 2]);
+    assertEquals(state, { pulled: 2, closed: true });
+  },
+});
+
+Deno.test({
+  name: "breaking out of iter closes source",
+  fn() {
+    const [state, source] = trackedIntegers();
+
+    for (const item of new Iter(source).map((x) => x * 2).filter(() => true)) {
+      if (item == 4) break;
+    }
+
+    assertEquals(state, { pulled: 2, closed: true });
+  },
+});
+
+Deno.test({
+  name: "zip iter closes both sides",
+  fn() {
+    const [leftState, left] = trackedIntegers(1, 5);
+    const [rightState, right] = trackedIntegers(6, 10);
+    const zipped = new Iter(left).zip(right).take(2).collect();
+
+    assertEquals(zipped, [[1, 6], [2, 7]]);
+    assertEquals(leftState.closed, true);
+    assertEquals(rightState.closed, true);
+  },
+});
+
+Deno.test({
+  name: "zip iter closes longer side",
+  fn() {
+    const [state, right] = trackedIntegers(1, 10);
+    const zipped = new Iter(sequentialIntegers(1, 2)).zip(right).collect();
+
+    assertEquals(zipped, [[1, 1], [2, 2]]);
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "chain iter closes current segment",
+  fn() {
+    const [firstState, first] = trackedIntegers(1, 2);
+    const [secondState, second] = trackedIntegers(3, 4);
+    const items = new Iter(first).chain(second).take(3).collect();
+
+    assertEquals(items, [1, 2, 3]);
+    assertEquals(firstState.closed, true);
+    assertEquals(secondState, { pulled: 1, closed: true });
+  },
+});
+
+Deno.test({
+  name: "return iter",
+  fn() {
+    const [state, source] = trackedIntegers();
+    const iter = new Iter(source).enumerate();
+
+    iter.next();
+
+    assertEquals(iter.return(), { done: true, value: undefined });
+    assertEquals(state.closed, true);
+  },
+});
+
+Deno.test({
+  name: "peekable iter",
+  fn() {
+    const iter = new Iter(sequentialIntegers(1, 3)).peekable();
+
+    assertEquals(iter.peek(), 1);
+    assertEquals(iter.peek(), 1);
+    assertEquals(iter.next(), { done: false, value: 1 });
+    assertEquals(iter.map((x) => x * 2).collect(), [4, 6]);
+    assertEquals(iter.peek(), undefined);
+  },
+});
+
+Deno.test({
+  name: "nextIf iter",
+  fn() {
+    const iter = new Iter(sequentialIntegers(1, 5)).peekable();
+
+    assertEquals(iter.nextIf((x) => x < 2), 1);
+    assertEquals(iter.nextIf((x) => x < 2), undefined);
+    assertEquals(iter.nextIfEq(3), undefined);
+    assertEquals(iter.nextIfEq(2), 2);
+    assertEquals(iter.collect(), [3, 4, 5]);
+  },
+});
+
+Deno.test({
+  name: "chunks iter",
+  fn() {
+    const chunks = new Iter(sequentialIntegers(1, 7)).chunks(3).collect();
+
+    assertEquals(chunks, [[1, 2, 3], [4, 5, 6], [7]]);
+  },
+});
+
+Deno.test({
+  name: "chunksExact iter",
+  fn() {
+    const iter = new Iter(sequentialIntegers(1, 7)).chunksExact(3);
+
+    assertEquals(iter.collect(), [[1, 2, 3], [4, 5, 6]]);
+    assertEquals(iter.remainder(), [7]);
+  },
+});
+
+Deno.test({
+  name: "windows iter",
+  fn() {
+    const windows = new Iter(sequentialIntegers(1, 5)).windows(3).collect();
+
+    assertEquals(windows, [[1, 2, 3], [2, 3, 4], [3, 4, 5]]);
+  },
+});
+
+Deno.test({
+  name: "intoResults iter",
+  fn() {
+    const error = new Error("failed");
+    const results = new Iter(function* () {
+      yield 1;
+      throw error;
+    }()).intoResults().collect();
+
+    assertEquals(results, [ok(1), err(error)]);
+  },
+});
+
+Deno.test({
+  name: "tryMap iter",
+  fn() {
+    const results = new Iter(sequentialIntegers(1, 3))
+      .intoResults()
+      .tryMap((x) => {
+        if (x == 2) throw "two";
+        return x * 2;
+      })
+      .collect();
+
+    assertEquals(results, [ok(2), err("two"), ok(6)]);
+  },
+});
+
+Deno.test({
+  name: "tryFilter iter",
+  fn() {
+    const results = new Iter([ok(1), err("failed"), ok(2)].values())
+      .tryFilter((x) => x % 2 == 0)
+      .collect();
+
+    assertEquals(results, [err("failed"), ok(2)]);
+  },
+});
+
+Deno.test({
+  name: "mapErr iter",
+  fn() {
+    const results = new Iter([ok(1), err("failed")].values())
+      .mapErr((error) => error.toUpperCase())
+      .collect();
+
+    assertEquals(results, [ok(1), err("FAILED")]);
+  },
+});
+
+Deno.test({
+  name: "catchError iter",
+  fn() {
+    const results = new Iter([ok(1), err("failed")].values())
+      .catchError((error) => error.length)
+      .collect();
+
+    assertEquals(results, [ok(1), ok(6)]);
+  },
+});
+
+Deno.test({
+  name: "retry iter",
+  fn() {
+    const attempts = new Map<number, number>();
+    const results = new Iter(sequentialIntegers(1, 3))
+      .intoResults()
+      .retry((x) => {
+        const attempt = (attempts.get(x) ?? 0) + 1;
+        attempts.set(x, attempt);
+
+        if (attempt < x) throw `attempt ${attempt}`;
+        return x;
+      }, { attempts: 2 })
+      .collect();
+
+    assertEquals(results, [ok(1), ok(2), err("attempt 2")]);
+  },
+});
+
+Deno.test({
+  name: "tryCollect iter",
+  fn() {
+    assertEquals(
+      new Iter(sequentialIntegers(1, 3)).intoResults().tryCollect(),
+      [
+        1,
+        2,
+        3,
+      ],
+    );
+
+    assertThrows(
+      () => new Iter([ok(1), err(new Error("failed"))].values()).tryCollect(),
+      Error,
+      "failed",
+    );
+  },
+});
+
+Deno.test({
+  name: "tryForEach iter",
+  fn() {
+    const seen: number[] = [];
+
+    assertThrows(
+      () =>
+        new Iter([ok(1), err(new Error("failed")), ok(2)].values())
+          .tryForEach((x) => seen.push(x)),
+      Error,
+      "failed",
+    );
+
+    assertEquals(seen, [1]);
+  },
+});
+
+Deno.test({
+  name: "find iter stops at first match",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const item = new Iter(source).find((item) => item % 3 === 0);
+
+    assertEquals(item, 3);
+    assertEquals(state, { pulled: 3, closed: true });
+    assertEquals(
+      new Iter(sequentialIntegers()).find((item) => item > 10),
+      undefined,
+    );
+  },
+});
+
+Deno.test({
+  name: "findMap iter",
+  fn() {
+    const item = new Iter(sequentialIntegers())
+      .findMap((item) => item > 4 ? `${item}` : undefined);
+
+    assertEquals(item, "5");
+  },
+});
+
+Deno.test({
+  name: "position iter",
+  fn() {
+    const iter = () => new Iter(sequentialIntegers());
+
+    assertEquals(iter().position((item) => item === 4), 3);
+    assertEquals(iter().position((item) => item === 11), undefined);
+  },
+});
+
+Deno.test({
+  name: "any and all iter short circuit",
+  fn() {
+    const [anyState, anySource] = trackedIntegers(1, Infinity);
+    const [allState, allSource] = trackedIntegers(1, Infinity);
+
+    assertEquals(new Iter(anySource).any((item) => item === 2), true);
+    assertEquals(anyState, { pulled: 2, closed: true });
+    assertEquals(new Iter(allSource).all((item) => item < 3), false);
+    assertEquals(allState, { pulled: 3, closed: true });
+    assertEquals(new Iter(sequentialIntegers(1, 0)).all(() => false), true);
+  },
+});
+
+Deno.test({
+  name: "last and nth iter",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+
+    assertEquals(new Iter(sequentialIntegers()).last(), 10);
+    assertEquals(new Iter(source).nth(2), 3);
+    assertEquals(state, { pulled: 3, closed: true });
+    assertEquals(new Iter(sequentialIntegers()).nth(10), undefined);
+  },
+});
+
+Deno.test({
+  name: "min and max iter",
+  fn() {
+    const words = () =>
+      new Iter(["bb", "a", "cc", "ddd", "e"][Symbol.iterator]());
+    const byLength = (a: string, b: string) => a.length - b.length;
+
+    assertEquals(words().minBy(byLength), "a");
+    assertEquals(words().maxBy(byLength), "ddd");
+    assertEquals(words().minByKey((word) => word.length), "a");
+    assertEquals(words().maxByKey((word) => word.length % 3), "cc");
+    assertEquals(
+      new Iter<string>([][Symbol.iterator]()).minBy(byLength),
+      undefined,
+    );
+
+    // Orders undefined before every number.
+    const undefinedFirst = (a?: number, b?: number) =>
+      a === undefined
+        ? (b === undefined ? 0 : -1)
+        : b === undefined
+        ? 1
+        : a - b;
+
+    assertEquals(Iter.from([3, undefined, 5]).minBy(undefinedFirst), undefined);
+    assertEquals(
+      Iter.from([undefined, 1]).maxBy((a, b) => undefinedFirst(b, a)),
+      undefined,
+    );
+  },
+});
+
+Deno.test({
+  name: "sum and product iter",
+  fn() {
+    assertEquals(new Iter(sequentialIntegers()).sum(), 55);
+    assertEquals(new Iter(sequentialIntegers(1, 5)).product(), 120);
+    assertEquals(new Iter(sequentialIntegers(1, 0)).product(), 1);
+  },
+});
+
+Deno.test({
+  name: "partition and unzip iter",
+  fn() {
+    const [even, odd] = new Iter(sequentialIntegers(1, 5))
+      .partition((item) => item % 2 === 0);
+    const [numbers, strings] = new Iter(sequentialIntegers(1, 3))
+      .map((item) => [item, `${item}`] as [number, string])
+      .unzip();
+
+    assertEquals([even, odd], [[2, 4], [1, 3, 5]]);
+    assertEquals([numbers, strings], [[1, 2, 3], ["1", "2", "3"]]);
+  },
+});
+
+Deno.test({
+  name: "fold and tryFold iter",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const folded = new Iter(sequentialIntegers(1, 4))
+      .fold("", (prev, item) => prev + item);
+    const tried = new Iter(source)
+      .tryFold(0, (prev, item) => item < 3 ? ok(prev + item) : err(prev));
+
+    assertEquals(folded, "1234");
+    assertEquals(tried, err(3));
+    assertEquals(state, { pulled: 3, closed: true });
+    assertEquals(
+      new Iter(sequentialIntegers(1, 3)).tryFold(
+        0,
+        (prev, item) => ok(prev + item),
+      ),
+      ok(6),
+    );
+  },
+});
+
+Deno.test({
+  name: "compare iter",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const iter = (end: number) => new Iter(sequentialIntegers(1, end));
+
+    assertEquals(new Iter(source).cmp([1, 2, 4]), -1);
+    assertEquals(state, { pulled: 3, closed: true });
+    assertEquals(iter(3).cmp([1, 2]), 1);
+    assertEquals(iter(3).cmp([1, 2, 3]), 0);
+    assertEquals(iter(3).eq([1, 2, 3]), true);
+    assertEquals(iter(3).ne([1, 2]), true);
+    assertEquals(iter(2).lt([1, 2, 3]), true);
+    assertEquals(iter(3).le([1, 2, 3]), true);
+    assertEquals(iter(3).gt([1, 3], (a, b) => b - a), true);
+    assertEquals(iter(3).ge([1, 2, 4]), false);
+  },
+});
+
+Deno.test({
+  name: "takeWhile iter stops at first failure",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const items = new Iter(source).takeWhile((item) => item < 4).collect();
+
+    assertEquals(items, [1, 2, 3]);
+    assertEquals(state, { pulled: 4, closed: true });
+  },
+});
+
+Deno.test({
+  name: "skipWhile iter",
+  fn() {
+    const items = new Iter([1, 2, 5, 1, 2][Symbol.iterator]())
+      .skipWhile((item) => item < 3)
+      .collect();
+
+    assertEquals(items, [5, 1, 2]);
+  },
+});
+
+Deno.test({
+  name: "mapWhile iter",
+  fn() {
+    const items = new Iter(["1", "2", "x", "4"][Symbol.iterator]())
+      .mapWhile((item) => {
+        const parsed = Number(item);
+        return Number.isNaN(parsed) ? undefined : parsed;
+      })
+      .collect();
+
+    assertEquals(items, [1, 2]);
+  },
+});
+
+Deno.test({
+  name: "scan iter",
+  fn() {
+    const items = new Iter(sequentialIntegers())
+      .scan(0, (sum, item) => sum + item > 10 ? undefined : sum + item)
+      .collect();
+
+    assertEquals(items, [1, 3, 6, 10]);
+  },
+});
+
+Deno.test({
+  name: "stepBy iter",
+  fn() {
+    const items = new Iter(sequentialIntegers()).stepBy(3).collect();
+
+    assertEquals(items, [1, 4, 7, 10]);
+    assertThrows(() => new Iter(sequentialIntegers()).stepBy(0), RangeError);
+  },
+});
+
+Deno.test({
+  name: "inspect iter",
+  fn() {
+    const seen: number[] = [];
+    const items = new Iter(sequentialIntegers(1, 3))
+      .inspect((item) => seen.push(item))
+      .map((item) => item * 2)
+      .collect();
+
+    assertEquals(seen, [1, 2, 3]);
+    assertEquals(items, [2, 4, 6]);
+  },
+});
+
+Deno.test({
+  name: "flatMap iter",
+  fn() {
+    const items = new Iter(sequentialIntegers(1, 3))
+      .flatMap((item) => Array(item).fill(item))
+      .collect();
+
+    assertEquals(items, [1, 2, 2, 3, 3, 3]);
+  },
+});
+
+Deno.test({
+  name: "intersperse iter",
+  fn() {
+    const items = new Iter(["a", "b", "c"][Symbol.iterator]())
+      .intersperse(",")
+      .collect();
+
+    assertEquals(items, ["a", ",", "b", ",", "c"]);
+    assertEquals(
+      new Iter<string>([][Symbol.iterator]()).intersperse(",").collect(),
+      [],
+    );
+  },
+});
+
+Deno.test({
+  name: "fuse iter",
+  fn() {
+    let calls = 0;
+    const flaky: Iterator<number> = {
+      next: () =>
+        ++calls === 2
+          ? { done: true, value: undefined }
+          : { done: false, value: calls },
+    };
+    const iter = new Iter(flaky).fuse();
+
+    assertEquals(iter.next(), { done: false, value: 1 });
+    assertEquals(iter.next().done, true);
+    assertEquals(iter.next().done, true);
+    assertEquals(calls, 2);
+  },
+});
+
+Deno.test({
+  name: "chunkBy iter groups consecutive keys",
+  fn() {
+    const lines = ["a:1", "a:2", "b:1", "a:3"];
+    const groups = new Iter(lines[Symbol.iterator]())
+      .chunkBy((line) => line.split(":")[0])
+      .collect();
+
+    assertEquals(groups, [
+      ["a", ["a:1", "a:2"]],
+      ["b", ["b:1"]],
+      ["a", ["a:3"]],
+    ]);
+  },
+});
+
+Deno.test({
+  name: "dedup iter",
+  fn() {
+    const iter = () => new Iter([1, 1, 2, 3, 3, 3, 1][Symbol.iterator]());
+
+    assertEquals(iter().dedup().collect(), [1, 2, 3, 1]);
+    assertEquals(iter().dedupBy((a, b) => b === a + 1).collect(), [
+      1,
+      1,
+      3,
+      3,
+      3,
+      1,
+    ]);
+    assertEquals(iter().dedupByKey((item) => item % 2).collect(), [1, 2, 3]);
+  },
+});
+
+Deno.test({
+  name: "unique iter",
+  fn() {
+    const iter = () => new Iter([1, 2, 1, 3, 2, 4, 1][Symbol.iterator]());
+
+    assertEquals(iter().unique().collect(), [1, 2, 3, 4]);
+    assertEquals(iter().uniqueBy((item) => item % 3).collect(), [1, 2, 3]);
+    assertEquals(iter().unique({ capacity: 2 }).collect(), [1, 2, 3, 2, 4, 1]);
+    assertThrows(() => iter().unique({ capacity: 0 }), RangeError);
+  },
+});
+
+Deno.test({
+  name: "groupBy and countBy iter",
+  fn() {
+    const iter = () => new Iter(sequentialIntegers(1, 5));
+
+    assertEquals(
+      iter().groupBy((item) => item % 2 ? "odd" : "even"),
+      new Map([["odd", [1, 3, 5]], ["even", [2, 4]]]),
+    );
+    assertEquals(
+      iter().countBy((item) => item % 2 ? "odd" : "even"),
+      new Map([["odd", 3], ["even", 2]]),
+    );
+  },
+});
+
+Deno.test({
+  name: "kMerge iter",
+  fn() {
+    const items = Iter.kMerge([1, 4, 7], [2, 5, 8], [0, 3, 6, 9]).collect();
+    const byLength = Iter.kMergeBy(
+      (a: string, b: string) => a.length - b.length,
+      ["a", "ccc"],
+      ["b", "dd"],
+    ).collect();
+
+    assertEquals(items, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assertEquals(byLength, ["a", "b", "dd", "ccc"]);
+  },
+});
+
+Deno.test({
+  name: "kMerge iter closes sources",
+  fn() {
+    const [leftState, left] = trackedIntegers(1, Infinity);
+    const [rightState, right] = trackedIntegers(1, Infinity);
+    const items = Iter.kMerge(left, right).take(3).collect();
+
+    assertEquals(items, [1, 1, 2]);
+    assertEquals(leftState.closed && rightState.closed, true);
+  },
+});
+
+Deno.test({
+  name: "mergeSorted iter",
+  fn() {
+    const items = new Iter([1, 3, 5][Symbol.iterator]())
+      .mergeSorted([2, 3, 4])
+      .collect();
+
+    assertEquals(items, [1, 2, 3, 3, 4, 5]);
+  },
+});
+
+Deno.test({
+  name: "mergeJoinBy iter",
+  fn() {
+    const users = [{ id: 1, name: "a" }, { id: 3, name: "c" }];
+    const orders = [{ user: 2 }, { user: 3 }];
+    const items = new Iter(users[Symbol.iterator]())
+      .mergeJoinBy(orders, (user, order) => user.id - order.user)
+      .collect();
+
+    assertEquals(items, [
+      { kind: "left", left: users[0] },
+      { kind: "right", right: orders[0] },
+      { kind: "both", left: users[1], right: orders[1] },
+    ]);
+  },
+});
+
+Deno.test({
+  name: "sorted set operations iter",
+  fn() {
+    const iter = () => new Iter([1, 2, 4, 6][Symbol.iterator]());
+
+    assertEquals(iter().unionSorted([2, 3, 6, 7]).collect(), [
+      1,
+      2,
+      3,
+      4,
+      6,
+      7,
+    ]);
+    assertEquals(iter().intersectSorted([2, 3, 6, 7]).collect(), [2, 6]);
+    assertEquals(iter().diffSorted([2, 3, 6, 7]).collect(), [1, 4]);
+  },
+});
+
+Deno.test({
+  name: "sorted set operations iter stop reading once they are decided",
+  fn() {
+    const [intersectState, intersectOther] = trackedIntegers(1, Infinity);
+    const [diffState, diffOther] = trackedIntegers(1, Infinity);
+
+    assertEquals(
+      new Iter([2, 4, 6].values()).intersectSorted(intersectOther).collect(),
+      [2, 4, 6],
+    );
+    assertEquals(intersectState, { pulled: 6, closed: true });
+    assertEquals(
+      new Iter([0, 2, 7].values()).diffSorted(diffOther).collect(),
+      [0],
+    );
+    assertEquals(diffState, { pulled: 7, closed: true });
+  },
+});
+
+function exactIntegers(start: number, end: number) {
+  let remaining = end - start + 1;
+
+  return new Iter(
+    function* () {
+      for (const item of sequentialIntegers(start, end)) {
+        remaining--;
+        yield item;
+      }
+    }(),
+    () => [remaining, remaining],
+  );
+}
+
+Deno.test({
+  name: "product iter",
+  fn() {
+    const iter = Iter.product([1, 2], ["a", "b", "c"]);
+
+    assertEquals(iter.sizeHint(), [6, 6]);
+    assertEquals(iter.next().value, [1, "a"]);
+    assertEquals(iter.sizeHint(), [5, 5]);
+    assertEquals(iter.collect(), [
+      [1, "b"],
+      [1, "c"],
+      [2, "a"],
+      [2, "b"],
+      [2, "c"],
+    ]);
+    assertEquals(Iter.product([1], []).collect(), []);
+    assertEquals(Iter.product().collect(), [[]]);
+  },
+});
+
+Deno.test({
+  name: "product iter buffers lazily",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const items = Iter.product(source, ["a", "b"]).take(3).collect();
+
+    assertEquals(items, [[1, "a"], [1, "b"], [2, "a"]]);
+    assertEquals(state, { pulled: 2, closed: true });
+  },
+});
+
+Deno.test({
+  name: "combinations iter",
+  fn() {
+    const iter = new Iter(sequentialIntegers(1, 4)).combinations(2);
+
+    assertEquals(iter.sizeHint(), [0, undefined]);
+    assertEquals(iter.collect(), [
+      [1, 2],
+      [1, 3],
+      [1, 4],
+      [2, 3],
+      [2, 4],
+      [3, 4],
+    ]);
+    assertEquals(
+      new Iter(sequentialIntegers(1, 2)).combinations(3).collect(),
+      [],
+    );
+    assertEquals(new Iter(sequentialIntegers(1, 2)).combinations(0).collect(), [
+      [],
+    ]);
+  },
+});
+
+Deno.test({
+  name: "combinations iter buffers lazily",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const items = new Iter(source).combinations(2).take(3).collect();
+
+    assertEquals(items, [[1, 2], [1, 3], [1, 4]]);
+    assertEquals(state, { pulled: 4, closed: true });
+  },
+});
+
+Deno.test({
+  name: "combinations iter reports exact size",
+  fn() {
+    const iter = exactIntegers(1, 5).combinations(3);
+
+    assertEquals(iter.sizeHint(), [10, 10]);
+    iter.next();
+    assertEquals(iter.sizeHint(), [9, 9]);
+    assertEquals(iter.count(), 9);
+  },
+});
+
+Deno.test({
+  name: "combinationsWithReplacement iter",
+  fn() {
+    const iter = new Iter(sequentialIntegers(1, 3))
+      .combinationsWithReplacement(2);
+
+    assertEquals(iter.collect(), [
+      [1, 1],
+      [1, 2],
+      [1, 3],
+      [2, 2],
+      [2, 3],
+      [3, 3],
+    ]);
+    assertEquals(
+      exactIntegers(1, 3).combinationsWithReplacement(3).sizeHint(),
+      [10, 10],
+    );
+  },
+});
+
+Deno.test({
+  name: "permutations iter",
+  fn() {
+    const iter = new Iter(sequentialIntegers(1, 3)).permutations();
+    const partial = new Iter(sequentialIntegers(1, 3)).permutations(2);
+
+    assertEquals(iter.collect(), [
+      [1, 2, 3],
+      [1, 3, 2],
+      [2, 1, 3],
+      [2, 3, 1],
+      [3, 1, 2],
+      [3, 2, 1],
+    ]);
+    assertEquals(partial.next().value, [1, 2]);
+    assertEquals(partial.sizeHint(), [5, 5]);
+    assertEquals(partial.collect(), [[1, 3], [2, 1], [2, 3], [3, 1], [3, 2]]);
+  },
+});
+
+Deno.test({
+  name: "powerset iter",
+  fn() {
+    const iter = new Iter(sequentialIntegers(1, 3)).powerset();
+
+    assertEquals(iter.collect(), [
+      [],
+      [1],
+      [2],
+      [3],
+      [1, 2],
+      [1, 3],
+      [2, 3],
+      [1, 2, 3],
+    ]);
+    assertEquals(exactIntegers(1, 2).powerset().sizeHint(), [4, 4]);
+  },
+});
+
+Deno.test({
+  name: "from iter",
+  fn() {
+    assertEquals(Iter.from([1, 2, 3]).collect(), [1, 2, 3]);
+    assertEquals(Iter.from(new Set(["a", "b"])).collect(), ["a", "b"]);
+    assertEquals(Iter.from(new Map([["a", 1]])).collect(), [["a", 1]]);
+    assertEquals(Iter.from("a😀b").collect(), ["a", "😀", "b"]);
+  },
+});
+
+Deno.test({
+  name: "from iter has exact size",
+  fn() {
+    const iter = Iter.from([1, 2, 3]);
+    const string = Iter.from("a😀b");
+    const set = Iter.from(new Set([1, 2]));
+
+    assertEquals(iter.sizeHint(), [3, 3]);
+    iter.next();
+    assertEquals(iter.len(), 2);
+    assertEquals(string.len(), 3);
+    string.next();
+    assertEquals(string.len(), 2);
+    assertEquals(set.len(), 2);
+    assertThrows(() => new Iter(sequentialIntegers()).len(), TypeError);
+  },
+});
+
+Deno.test({
+  name: "size hints carry through adapters",
+  fn() {
+    const iter = () => Iter.from([1, 2, 3, 4, 5]);
+
+    assertEquals(iter().map((item) => item * 2).sizeHint(), [5, 5]);
+    assertEquals(iter().enumerate().sizeHint(), [5, 5]);
+    assertEquals(iter().take(3).sizeHint(), [3, 3]);
+    assertEquals(iter().take(10).sizeHint(), [5, 5]);
+    assertEquals(iter().skip(2).sizeHint(), [3, 3]);
+    assertEquals(iter().skip(10).sizeHint(), [0, 0]);
+    assertEquals(iter().zip(["a", "b"]).sizeHint(), [2, 2]);
+    assertEquals(iter().chain([6], new Set([7, 8])).sizeHint(), [8, 8]);
+    assertEquals(iter().filter(() => true).sizeHint(), [0, 5]);
+    assertEquals(new Iter(sequentialIntegers()).take(3).sizeHint(), [0, 3]);
+    assertEquals(iter().chain(sequentialIntegers()).sizeHint(), [5, undefined]);
+  },
+});
+
+Deno.test({
+  name: "size hints update as adapters are consumed",
+  fn() {
+    const chained = Iter.from([1, 2]).chain([3, 4]);
+    const taken = Iter.from([1, 2, 3, 4]).skip(1).take(2);
+    const zipped = Iter.from([1, 2, 3]).zip([4, 5, 6, 7]);
+    const peekable = Iter.from([1, 2]).peekable();
+
+    chained.next();
+    chained.next();
+    chained.next();
+    assertEquals(chained.sizeHint(), [1, 1]);
+    taken.next();
+    assertEquals(taken.sizeHint(), [1, 1]);
+    zipped.next();
+    assertEquals(zipped.sizeHint(), [2, 2]);
+    peekable.peek();
+    assertEquals(peekable.sizeHint(), [2, 2]);
+  },
+});
+
+Deno.test({
+  name: "from iter counts and skips without reading",
+  fn() {
+    const iter = Iter.from([1, 2, 3, 4, 5]);
+
+    assertEquals(iter.nth(1), 2);
+    assertEquals(iter.count(), 3);
+    assertEquals(iter.next(), { done: true, value: undefined });
+    assertEquals(Iter.from([1, 2, 3]).last(), 3);
+    assertEquals(Iter.from([1, 2, 3]).nth(5), undefined);
+  },
+});
+
+Deno.test({
+  name: "range, set and map iter count and skip without reading",
+  fn() {
+    const range = Iter.range(0, 1e9);
+
+    assertEquals(range.nth(1e8), 1e8);
+    assertEquals(range.count(), 1e9 - 1e8 - 1);
+    assertEquals(range.next(), { done: true, value: undefined });
+
+    let read = 0;
+    // A set that counts how many of its items are read.
+    const trackedSet = (items: number[]) => {
+      const set = new Set(items);
+      const iterate = set[Symbol.iterator].bind(set);
+
+      set[Symbol.iterator] = function* () {
+        for (const item of iterate()) {
+          read++;
+          yield item;
+        }
+      } as typeof iterate;
+
+      return set;
+    };
+
+    const set = Iter.from(trackedSet([1, 2, 3]));
+    set.next();
+    assertEquals(set.count(), 2);
+    assertEquals(set.next(), { done: true, value: undefined });
+    assertEquals(Iter.from(trackedSet([1, 2, 3])).nth(3), undefined);
+    assertEquals(read, 1);
+
+    assertEquals(Iter.from(new Map([[1, "a"], [2, "b"]])).count(), 2);
+    assertEquals(Iter.from(new Set([1, 2, 3])).nth(1), 2);
+    assertEquals(Iter.from("héllo").count(), 5);
+  },
+});
+
+Deno.test({
+  name: "range iter",
+  fn() {
+    assertEquals(Iter.range(0, 5).collect(), [0, 1, 2, 3, 4]);
+    assertEquals(Iter.range(0, 10, 3).collect(), [0, 3, 6, 9]);
+    assertEquals(Iter.range(5, 0, -2).collect(), [5, 3, 1]);
+    assertEquals(Iter.range(5, 0).collect(), []);
+    assertEquals(Iter.range(0, 10, 3).len(), 4);
+    assertThrows(() => Iter.range(0, 5, 0), RangeError);
+    assertThrows(() => Iter.range(0, Infinity), RangeError);
+  },
+});
+
+Deno.test({
+  name: "nextBack iter meets in the middle",
+  fn() {
+    const iter = Iter.range(0, 4);
+
+    assertEquals(iter.nextBack(), { done: false, value: 3 });
+    assertEquals(iter.next(), { done: false, value: 0 });
+    assertEquals(iter.len(), 2);
+    assertEquals(iter.nextBack(), { done: false, value: 2 });
+    assertEquals(iter.nextBack(), { done: false, value: 1 });
+    assertEquals(iter.next().done, true);
+    assertEquals(iter.nextBack().done, true);
+  },
+});
+
+Deno.test({
+  name: "rev iter",
+  fn() {
+    assertEquals(Iter.from([1, 2, 3]).rev().collect(), [3, 2, 1]);
+    assertEquals(
+      Iter.from([1, 2, 3]).map((item) => item * 2).rev().collect(),
+      [6, 4, 2],
+    );
+    assertEquals(Iter.range(0, 3).rev().rev().collect(), [0, 1, 2]);
+  },
+});
+
+Deno.test({
+  name: "rfind, rposition and nthBack iter",
+  fn() {
+    const iter = () => Iter.from([1, 2, 3, 4, 5, 6]);
+
+    assertEquals(iter().rfind((item) => item % 2 === 1), 5);
+    assertEquals(iter().rposition((item) => item % 2 === 1), 4);
+    assertEquals(iter().rposition((item) => item > 6), undefined);
+    assertEquals(iter().nthBack(1), 5);
+    assertEquals(iter().nthBack(6), undefined);
+    assertEquals(iter().last(), 6);
+  },
+});
+
+Deno.test({
+  name: "double ended adapters",
+  fn() {
+    const filtered = Iter.range(0, 10).filter((item) => item % 3 === 0);
+    const enumerated = Iter.from(["a", "b", "c"]).enumerate();
+    const chained = Iter.from([1, 2]).chain([3], Iter.range(4, 6));
+    const zipped = Iter.from([1, 2, 3, 4]).zip(["a", "b"]);
+
+    assertEquals(filtered.rev().collect(), [9, 6, 3, 0]);
+    assertEquals(enumerated.nextBack().value, [2, "c"]);
+    assertEquals(enumerated.collect(), [[0, "a"], [1, "b"]]);
+    assertEquals(chained.rev().collect(), [5, 4, 3, 2, 1]);
+    assertEquals(zipped.nextBack().value, [2, "b"]);
+    assertEquals(zipped.collect(), [[1, "a"]]);
+  },
+});
+
+Deno.test({
+  name: "double ended adapters fall back for other iterables",
+  fn() {
+    const chained = Iter.from([1]).chain(sequentialIntegers(2, 3));
+    const zipped = Iter.from([1, 2]).zip(sequentialIntegers());
+
+    assertEquals(chained.collect(), [1, 2, 3]);
+    assertEquals(zipped.collect(), [[1, 1], [2, 2]]);
+  },
+});
+
+Deno.test({
+  name: "double ended adapters fall back without an exact size",
+  fn() {
+    const even = () => Iter.range(0, 6).filter((item) => item % 2 === 0);
+    const enumerated = even().enumerate();
+    const zipped = even().zip(["a", "b"]);
+
+    assertEquals(enumerated instanceof DoubleEndedIter, false);
+    assertEquals(enumerated.collect(), [[0, 0], [1, 2], [2, 4]]);
+    assertEquals(zipped instanceof DoubleEndedIter, false);
+    assertEquals(zipped.collect(), [[0, "a"], [2, "b"]]);
+  },
+});
+
+Deno.test({
+  name: "collect iter runs in linear time",
+  fn() {
+    const items = new Iter(sequentialIntegers(1, 100_000)).collect();
+
+    assertEquals(items.length, 100_000);
+    assertEquals(items[99_999], 100_000);
+  },
+});
+
+Deno.test({
+  name: "toMap, toSet and toObject iter",
+  fn() {
+    const pairs = () =>
+      Iter.from([["a", 1], ["b", 2], ["a", 3]] as [string, number][]);
+
+    assertEquals(pairs().toMap(), new Map([["a", 3], ["b", 2]]));
+    assertEquals(pairs().toObject(), { a: 3, b: 2 });
+    assertEquals(Iter.from([1, 2, 1]).toSet(), new Set([1, 2]));
+  },
+});
+
+Deno.test({
+  name: "join iter",
+  fn() {
+    assertEquals(new Iter(sequentialIntegers(1, 3)).join(", "), "1, 2, 3");
+    assertEquals(new Iter(sequentialIntegers(1, 3)).join(), "1,2,3");
+    assertEquals(Iter.from<string>([]).join("-"), "");
+  },
+});
+
+Deno.test({
+  name: "collectInto iter",
+  fn() {
+    const sum = new Iter(sequentialIntegers(1, 4)).collectInto({
+      create: () => 0,
+      add: (total, item) => total + item,
+    });
+    const reversed = Iter.from([1, 2, 3]).collectInto({
+      create: (): readonly number[] => [],
+      add: (items, item) => [item, ...items],
+    });
+
+    assertEquals(sum, 10);
+    assertEquals(reversed, [3, 2, 1]);
+  },
+});
+
+Deno.test({
+  name: "tee iter",
+  fn() {
+    const [left, right] = Iter.from([1, 2, 3]).tee();
+
+    assertEquals(left.take(2).collect(), [1, 2]);
+    assertEquals(right.collect(), [1, 2, 3]);
+  },
+});
+
+Deno.test({
+  name: "tee iter with bounded buffer",
+  fn() {
+    const [left, right] = Iter.range(1, 11).tee(2, { bufferSize: 2 });
+
+    assertEquals(left.next(), { done: false, value: 1 });
+    assertEquals(left.next(), { done: false, value: 2 });
+    assertThrows(() => left.next(), RangeError);
+    assertEquals(right.take(3).collect(), [1, 2, 3]);
+  },
+});
+
+Deno.test({
+  name: "tee iter closes source once every branch is closed",
+  fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const [left, right] = new Iter(source).tee();
+
+    assertEquals(left.take(2).collect(), [1, 2]);
+    assertEquals(state, { pulled: 2, closed: false });
+
+    assertEquals(right.take(1).collect(), [1]);
+    assertEquals(state, { pulled: 2, closed: true });
+  },
+});
+
+Deno.test({
+  name: "toAsync iter",
+  async fn() {
+    const [state, source] = trackedIntegers(1, Infinity);
+    const items = await new Iter(source).toAsync().take(2).collect();
+
+    assertEquals(items, [1, 2]);
+    assertEquals(state, { pulled: 2, closed: true });
+  },
+});
+
+Deno.test({
+  name: "explain iter",
+  fn() {
+    const iter = Iter.range(0, 10)
+      .map((x) => x * 2)
+      .named("double")
+      .zip(new Iter(sequentialIntegers()).filter((x) => x > 1))
+      .take(3);
+
+    assertEquals(
+      iter.explain(),
+      [
+        "take",
+        "└─ zip",
+        '   ├─ map "double"',
+        "   │  └─ range",
+        "   └─ filter",
+        "      └─ source",
+      ].join("\n"),
+    );
+  },
+});
+
+Deno.test({
+  name: "instrument iter",
+  fn() {
+    const metrics = new Metrics();
+    const source = Iter.range(0, 10);
+    const evens = source.filter((x) => x % 2 === 0).named("evens");
+    const iter = evens.map((x) => x * 10).instrument(metrics);
+
+    assertEquals(iter.take(2).collect(), [0, 20]);
+    assertEquals(metrics.get(evens.stage()).itemsIn, 3);
+    assertEquals(metrics.get(evens.stage()).itemsOut, 2);
+    assertEquals(metrics.get(iter.stage()).itemsIn, 2);
+    assertEquals(
+      iter.explain(metrics).split("\n").map((line) => line.split(",")[0]),
+      ["map: 2 in", '└─ filter "evens": 3 in', "   └─ range: 0 in"],
+    );
+  },
+});
+
+Deno.test({
+  name: "instrument iter read from the back",
+  fn() {
+    const metrics = new Metrics();
+    const iter = Iter.range(0, 10).map((x) => x * 2).instrument(metrics);
+
+    assertEquals(iter.rev().take(2).collect(), [18, 16]);
+    assertEquals(metrics.get(iter.stage()).itemsIn, 2);
+    assertEquals(metrics.get(iter.stage()).itemsOut, 2);
+    assertEquals(iter.rev().explain(), "rev\n└─ map\n   └─ range");
+  },
+});
+
+Deno.test({
+  name: "uninstrumented iter isn't wrapped",
+  fn() {
+    const iter = Iter.range(0, 10).map((x) => x + 1);
+
+    assertEquals(Object.hasOwn(iter, "next"), false);
+    iter.instrument({ next() {} });
+    assertEquals(Object.hasOwn(iter, "next"), true);
+  },
+});
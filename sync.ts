@@ -1,8 +1,109 @@
+import { AsyncIter } from "./async.ts";
+import { defaultCompare } from "./cmp.ts";
+import type { Comparator } from "./cmp.ts";
+import type { Collector } from "./collect.ts";
+import { LruSet } from "./lru.ts";
+import type { UniqueOptions } from "./lru.ts";
+import type { Operator } from "./operators/types.ts";
+import {
+  arrangements,
+  binomial,
+  combinations,
+  combinationsWithReplacement,
+  LazyBuffer,
+  permutations,
+  powerset,
+  product,
+} from "./combinatorics.ts";
+import { err, ok } from "./result.ts";
+import type { Result, RetryPolicy } from "./result.ts";
+import { compareHeads, Heap, sortedSide } from "./sorted.ts";
+import type { EitherOrBoth } from "./sorted.ts";
+import {
+  explainStage,
+  instrumentStages,
+  recordStage,
+  stageOf,
+} from "./stage.ts";
+import type { Instrumentation, Metrics, Stage } from "./stage.ts";
+
+/**
+ * The bounds on how many items an iterator has left, the upper bound is undefined if it's unknown
+ * or the iterator never ends.
+ */
+export type SizeHint = [lower: number, upper: number | undefined];
+
+/**
+ * Options for {@link Iter.tee} and {@link AsyncIter.tee}.
+ */
+export interface TeeOptions {
+  /**
+   * How many items a branch can fall behind the furthest branch, unlimited if not provided. Once
+   * full, reading further ahead throws for {@link Iter} and waits for {@link AsyncIter}.
+   */
+  bufferSize?: number;
+}
+
 export class Iter<T> implements Iterator<T>, Iterable<T> {
   #inner: Iterator<T>;
+  #sizeHint?: () => SizeHint;
 
-  constructor(inner: Iterator<T>) {
+  /**
+   * @param inner the iterator to wrap.
+   * @param sizeHint a function that reports how many items the iterator has left, if known.
+   */
+  constructor(inner: Iterator<T>, sizeHint?: () => SizeHint) {
     this.#inner = inner;
+    this.#sizeHint = sizeHint;
+  }
+
+  /**
+   * Creates an iterator over the items of an array, the values of a set, the entries of a map or
+   * the code points of a string, which knows exactly how many items it has left.
+   * @param source the collection to iterate over.
+   * @returns a {@link Iter} with an exact size hint.
+   */
+  static from<T>(source: readonly T[]): DoubleEndedIter<T, true>;
+  static from<T>(source: ReadonlySet<T>): Iter<T>;
+  static from<K, V>(source: ReadonlyMap<K, V>): Iter<[K, V]>;
+  static from(source: string): Iter<string>;
+  static from(source: Collection): Iter<unknown> {
+    return recordStage(fromCollection(source), "from", source);
+  }
+
+  /**
+   * Creates an iterator over the numbers from start up to but not including end, which can also be
+   * read from the back.
+   * @param start the first number.
+   * @param end the number to stop before.
+   * @param step the distance between numbers, which may be negative to count down.
+   * @returns a {@link DoubleEndedIter} of numbers.
+   * @throws {RangeError} if start or end isn't finite, as the back of the range must be known.
+   */
+  static range(
+    start: number,
+    end: number,
+    step = 1,
+  ): DoubleEndedIter<number, true> {
+    if (step === 0) throw new RangeError("step must not be 0");
+    if (!Number.isFinite(start) || !Number.isFinite(end)) {
+      throw new RangeError("start and end must be finite");
+    }
+
+    return recordStage(
+      new RangeIter(start, step, Math.max(Math.ceil((end - start) / step), 0)),
+      "range",
+    );
+  }
+
+  /**
+   * Converts a native iterator, such as one returned by the `Iterator.prototype` helpers, into an
+   * {@link Iter}.
+   * @param iterator the native iterator to read from.
+   * @returns a {@link Iter} of the items of the native iterator.
+   */
+  static fromNative<T>(iterator: Iterator<T>): Iter<T> {
+    return recordStage(new Iter(iterator), "fromNative");
   }
 
   /**
@@ -11,13 +112,98 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
    * @returns a never ending {@link Iter}.
    */
   static repeatWith<T>(func: (index: number) => T): Iter<T> {
-    return new Iter(function* () {
-      let index = 0;
+    return recordStage(
+      new Iter(function* () {
+        let index = 0;
 
-      while (true) {
-        yield func(index++);
-      }
-    }());
+        while (true) {
+          yield func(index++);
+        }
+      }()),
+      "repeatWith",
+    );
+  }
+
+  /**
+   * Merges iterables that are each sorted in ascending order into one sorted {@link Iter}, holding
+   * only the next item of every iterable at a time.
+   * @param sources sorted iterables to be merged.
+   * @returns a sorted {@link Iter} of the items of every iterable.
+   */
+  static kMerge<T>(...sources: Iterable<T>[]): Iter<T> {
+    return recordStage(
+      Iter.kMergeBy(defaultCompare, ...sources),
+      "kMerge",
+      ...sources,
+    );
+  }
+
+  /**
+   * Merges iterables that are each sorted by the comparator into one sorted {@link Iter}, holding
+   * only the next item of every iterable at a time. Equal items are yielded in the order of the
+   * iterables they came from.
+   * @param compare a function that orders two items.
+   * @param sources sorted iterables to be merged.
+   * @returns a sorted {@link Iter} of the items of every iterable.
+   */
+  static kMergeBy<T>(
+    compare: Comparator<T>,
+    ...sources: Iterable<T>[]
+  ): Iter<T> {
+    return recordStage(
+      new Iter(function* () {
+        const iterators = sources.map((source) => source[Symbol.iterator]());
+        const done = iterators.map(() => false);
+        const heads = new Heap(compareHeads(compare));
+
+        const pull = (source: number) => {
+          const result = iterators[source].next();
+          done[source] = result.done ?? true;
+          if (!result.done) heads.push({ value: result.value, source });
+        };
+
+        try {
+          iterators.forEach((_, source) => pull(source));
+
+          while (heads.size > 0) {
+            const head = heads.pop()!;
+            yield head.value;
+            pull(head.source);
+          }
+        } finally {
+          iterators.forEach((iterator, source) => {
+            if (!done[source]) iterator.return?.();
+          });
+        }
+      }()),
+      "kMergeBy",
+      ...sources,
+    );
+  }
+
+  /**
+   * Creates the cartesian product of the iterables, yielding a tuple for every way of picking one
+   * item from each iterable with the last iterable advancing fastest. Items are buffered as
+   * they're first needed so they can be revisited.
+   * @param iterables the iterables to pick items from.
+   * @returns a {@link Iter} of tuples.
+   */
+  static product<T extends unknown[]>(
+    ...iterables: { [K in keyof T]: Iterable<T[K]> }
+  ): Iter<T> {
+    const pools = iterables.map((iterable) =>
+      new LazyBuffer(sized(iterable as Iterable<unknown>))
+    );
+
+    return recordStage(
+      withExactSize(product(pools) as Iterator<T>, () => {
+        const sizes = pools.map((pool) => pool.size());
+        if (sizes.some((size) => size === undefined)) return undefined;
+        return sizes.reduce((total: number, size) => total * size!, 1);
+      }, () => pools.forEach((pool) => pool.close())),
+      "product",
+      ...iterables,
+    );
   }
 
   /**
@@ -26,11 +212,15 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
    * @returns a {@link Iter} where all elements have passed the predicate.
    */
   filter(predicate: (item: T) => boolean): Iter<T> {
-    return new Iter(function* (iter: Iter<T>) {
-      for (const item of iter) {
-        if (predicate(item)) yield item;
-      }
-    }(this));
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        for (const item of iter) {
+          if (predicate(item)) yield item;
+        }
+      }(this)),
+      "filter",
+      this,
+    );
   }
 
   /**
@@ -43,12 +233,16 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
   filterMap<Output>(
     func: (item: T) => Output | undefined,
   ): Iter<Output> {
-    return new Iter(function* (iter: Iter<T>) {
-      for (const item of iter) {
-        const mapped = func(item);
-        if (mapped !== undefined) yield mapped;
-      }
-    }(this));
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        for (const item of iter) {
+          const mapped = func(item);
+          if (mapped !== undefined) yield mapped;
+        }
+      }(this)),
+      "filterMap",
+      this,
+    );
   }
 
   /**
@@ -59,11 +253,18 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
   map<Output>(
     func: (item: T) => Output,
   ): Iter<Output> {
-    return new Iter(function* (iter: Iter<T>) {
-      for (const item of iter) {
-        yield func(item);
-      }
-    }(this));
+    return recordStage(
+      new Iter(
+        function* (iter: Iter<T>) {
+          for (const item of iter) {
+            yield func(item);
+          }
+        }(this),
+        () => this.sizeHint(),
+      ),
+      "map",
+      this,
+    );
   }
 
   /**
@@ -72,13 +273,31 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
    * @returns all iterables chained onto the current {@link Iter}.
    */
   chain(...next: Iterable<T>[]): Iter<T> {
-    return new Iter(function* (iter: Iter<T>) {
-      yield* iter;
+    // How far along the chain the iterator is, -1 while still on the current iterator.
+    let position = -1;
+    let current: Iter<T> | undefined;
 
-      for (const nextIterator of next) {
-        yield* nextIterator;
-      }
-    }(this));
+    return recordStage(
+      new Iter(
+        function* (iter: Iter<T>) {
+          yield* iter;
+
+          for (const nextIterable of next) {
+            position++;
+            current = sized(nextIterable);
+            yield* current;
+          }
+        }(this),
+        () =>
+          sumHints([
+            (current ?? this).sizeHint(),
+            ...next.slice(position + 1).map(hintOf),
+          ]),
+      ),
+      "chain",
+      this,
+      ...next,
+    );
   }
 
   /**
@@ -89,29 +308,235 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
    * @returns a zipped {@link Iter}
    */
   zip<R>(right: Iterable<R>): Iter<[T, R]> {
-    const rightIter = right[Symbol.iterator]();
+    let rightIter: Iter<R> | undefined;
+    let finished = false;
 
-    return new Iter(function* (iter: Iter<T>) {
-      let done = false;
+    return recordStage(
+      new Iter(
+        function* (iter: Iter<T>) {
+          rightIter = sized(right);
+          let leftDone = false;
+          let rightDone = false;
 
-      while (!done) {
-        const [leftResult, rightResult] = [
-          iter.next(),
-          rightIter.next(),
-        ];
+          try {
+            while (true) {
+              // According to MDN docs done is always present, so we'll just fallback to true.
+              const leftResult = iter.next();
+              leftDone = leftResult.done ?? true;
+              if (leftDone) return;
 
-        // According to MDN docs done is always present, so we'll just fallback to true.
-        done ||= leftResult.done ?? true;
-        done ||= rightResult.done ?? true;
+              const rightResult = rightIter.next();
+              rightDone = rightResult.done ?? true;
+              if (rightDone) return;
 
-        if (done) break;
+              yield [
+                leftResult.value,
+                rightResult.value,
+              ] as [T, R];
+            }
+          } finally {
+            finished = true;
 
-        yield [
-          leftResult.value,
-          rightResult.value,
-        ] as [T, R];
-      }
-    }(this));
+            // Close whichever side still has items, we won't be reading from it anymore.
+            if (!leftDone) iter.return();
+            if (!rightDone) rightIter.return();
+          }
+        }(this),
+        () => {
+          if (finished) return [0, 0];
+
+          return minHints(
+            this.sizeHint(),
+            rightIter?.sizeHint() ?? hintOf(right),
+          );
+        },
+      ),
+      "zip",
+      this,
+      right,
+    );
+  }
+
+  /**
+   * Merges this iterator with another, both sorted by the comparator, into one sorted iterator.
+   * @param other the sorted iterable to merge with.
+   * @param compare a function that orders two items.
+   * @returns a sorted {@link Iter} of the items of both iterators.
+   */
+  mergeSorted(
+    other: Iterable<T>,
+    compare: Comparator<T> = defaultCompare,
+  ): Iter<T> {
+    return recordStage(
+      Iter.kMergeBy(compare, this, other),
+      "mergeSorted",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Aligns this iterator with another, both sorted by the comparator, pairing up items that
+   * compare equal and tagging items that only one of the iterators has.
+   * @param other the sorted iterable to join with.
+   * @param compare a function that orders an item of this iterator against one of the other.
+   * @returns a sorted {@link Iter} of left, right and both items.
+   */
+  mergeJoinBy<R>(
+    other: Iterable<R>,
+    compare: (left: T, right: R) => number,
+  ): Iter<EitherOrBoth<T, R>> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        const leftSide = sortedSide(iter);
+        const rightSide = sortedSide(other[Symbol.iterator]());
+
+        try {
+          let left = leftSide.next();
+          let right = rightSide.next();
+
+          while (!left.done || !right.done) {
+            const order = left.done
+              ? 1
+              : right.done
+              ? -1
+              : compare(left.value, right.value);
+
+            if (order < 0) {
+              yield { kind: "left", left: left.value as T };
+              left = leftSide.next();
+            } else if (order > 0) {
+              yield { kind: "right", right: right.value as R };
+              right = rightSide.next();
+            } else {
+              yield {
+                kind: "both",
+                left: left.value as T,
+                right: right.value as R,
+              };
+              left = leftSide.next();
+              right = rightSide.next();
+            }
+          }
+        } finally {
+          // Close whichever side still has items, we won't be reading from it anymore.
+          leftSide.close();
+          rightSide.close();
+        }
+      }(this)),
+      "mergeJoinBy",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Yields every item that is in either sorted iterator, yielding items both have only once.
+   * @param other the sorted iterable to combine with.
+   * @param compare a function that orders two items.
+   * @returns a sorted {@link Iter} of the union of both iterators.
+   */
+  unionSorted(
+    other: Iterable<T>,
+    compare: Comparator<T> = defaultCompare,
+  ): Iter<T> {
+    return recordStage(
+      this.mergeJoinBy(other, compare)
+        .map((item) => item.kind === "right" ? item.right : item.left),
+      "unionSorted",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Yields the items of this sorted iterator that are also in the other.
+   * @param other the sorted iterable to intersect with.
+   * @param compare a function that orders two items.
+   * @returns a sorted {@link Iter} of the intersection of both iterators.
+   */
+  intersectSorted(
+    other: Iterable<T>,
+    compare: Comparator<T> = defaultCompare,
+  ): Iter<T> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        const leftSide = sortedSide(iter);
+        const rightSide = sortedSide(other[Symbol.iterator]());
+
+        try {
+          let left = leftSide.next();
+          if (left.done) return;
+          let right = rightSide.next();
+
+          // Nothing can be in both once either iterator has ended.
+          while (!left.done && !right.done) {
+            const order = compare(left.value, right.value);
+
+            if (order < 0) {
+              left = leftSide.next();
+            } else if (order > 0) {
+              right = rightSide.next();
+            } else {
+              yield left.value;
+              left = leftSide.next();
+              if (!left.done) right = rightSide.next();
+            }
+          }
+        } finally {
+          leftSide.close();
+          rightSide.close();
+        }
+      }(this)),
+      "intersectSorted",
+      this,
+      other,
+    );
+  }
+
+  /**
+   * Yields the items of this sorted iterator that aren't in the other.
+   * @param other the sorted iterable of items to leave out.
+   * @param compare a function that orders two items.
+   * @returns a sorted {@link Iter} of the difference of both iterators.
+   */
+  diffSorted(
+    other: Iterable<T>,
+    compare: Comparator<T> = defaultCompare,
+  ): Iter<T> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        const leftSide = sortedSide(iter);
+        const rightSide = sortedSide(other[Symbol.iterator]());
+
+        try {
+          let left = leftSide.next();
+          if (left.done) return;
+          let right = rightSide.next();
+
+          // The rest of the other iterator doesn't matter once this one has ended.
+          while (!left.done) {
+            const order = right.done ? -1 : compare(left.value, right.value);
+
+            if (order < 0) {
+              yield left.value;
+              left = leftSide.next();
+            } else if (order > 0) {
+              right = rightSide.next();
+            } else {
+              left = leftSide.next();
+              if (!left.done) right = rightSide.next();
+            }
+          }
+        } finally {
+          leftSide.close();
+          rightSide.close();
+        }
+      }(this)),
+      "diffSorted",
+      this,
+      other,
+    );
   }
 
   /**
@@ -119,13 +544,20 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
    * @returns a {@link Iter} with items and their index.
    */
   enumerate(): Iter<[number, T]> {
-    return new Iter(function* (iter: Iter<T>) {
-      let index = 0;
+    return recordStage(
+      new Iter(
+        function* (iter: Iter<T>) {
+          let index = 0;
 
-      for (const item of iter) {
-        yield [index++, item] as [number, T];
-      }
-    }(this));
+          for (const item of iter) {
+            yield [index++, item] as [number, T];
+          }
+        }(this),
+        () => this.sizeHint(),
+      ),
+      "enumerate",
+      this,
+    );
   }
 
   /**
@@ -134,14 +566,38 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
    * @returns a limited {@link Iter}.
    */
   take(limit: number): Iter<T> {
-    return new Iter(function* (iter: Iter<T>) {
-      let count = 0;
+    let count = 0;
 
-      for (const item of iter) {
-        if (++count > limit) break;
-        yield item;
-      }
-    }(this));
+    return recordStage(
+      new Iter(
+        function* (iter: Iter<T>) {
+          if (limit <= 0) {
+            iter.return();
+            return;
+          }
+
+          for (const item of iter) {
+            count++;
+            yield item;
+            // Stop before pulling the next item so the source isn't advanced past the limit.
+            if (count >= limit) break;
+          }
+        }(this),
+        () => {
+          const remaining = Math.max(limit - count, 0);
+          const [lower, upper] = this.sizeHint();
+
+          return [
+            Math.min(lower, remaining),
+            upper === undefined
+              ? (Number.isFinite(remaining) ? remaining : undefined)
+              : Math.min(upper, remaining),
+          ];
+        },
+      ),
+      "take",
+      this,
+    );
   }
 
   /**
@@ -150,88 +606,2185 @@ export class Iter<T> implements Iterator<T>, Iterable<T> {
    * @returns a {@link Iter} that skipped n elements.
    */
   skip(items: number): Iter<T> {
-    return new Iter(function* (iter: Iter<T>) {
-      let count = 0;
+    let count = 0;
 
-      for (const item of iter) {
-        if (++count <= items) continue;
-        yield item;
-      }
-    }(this));
+    return recordStage(
+      new Iter(
+        function* (iter: Iter<T>) {
+          for (const item of iter) {
+            if (++count <= items) continue;
+            yield item;
+          }
+        }(this),
+        () => {
+          const skipping = Math.max(items - count, 0);
+          const [lower, upper] = this.sizeHint();
+
+          return [
+            Math.max(lower - skipping, 0),
+            upper === undefined ? undefined : Math.max(upper - skipping, 0),
+          ];
+        },
+      ),
+      "skip",
+      this,
+    );
   }
 
   /**
-   * Flattens the iterator of elements by one level.
-   * @returns a {@link Iter} that yields all items in arrays yielded by the iterator.
+   * Yields items while they pass the predicate, ending the iterator at the first item that
+   * doesn't.
+   * @param predicate if the iterator should keep yielding items.
+   * @returns a {@link Iter} of the leading items that passed the predicate.
    */
-  flat<A extends Array<E>, E>(
-    this: Iter<A>,
-  ): Iter<A extends (infer U)[] ? U : never> {
-    return new Iter(function* (iter: Iter<A>) {
-      for (const item of iter) {
-        // deno-lint-ignore no-explicit-any
-        yield* item as unknown as any;
-      }
-    }(this));
+  takeWhile(predicate: (item: T) => boolean): Iter<T> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        for (const item of iter) {
+          if (!predicate(item)) return;
+          yield item;
+        }
+      }(this)),
+      "takeWhile",
+      this,
+    );
   }
 
   /**
-   * Iterates through the entire iterator and collects the items as an array.
-   * @returns all the items in the iterator as an array.
+   * Skips items while they pass the predicate, yielding every item from the first one that
+   * doesn't.
+   * @param predicate if the item should be skipped.
+   * @returns a {@link Iter} without the leading items that passed the predicate.
    */
-  collect(): T[] {
-    return this.reduce<T[]>((prev, curr) => [...prev, curr], []);
+  skipWhile(predicate: (item: T) => boolean): Iter<T> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        let skipping = true;
+
+        for (const item of iter) {
+          if (skipping && predicate(item)) continue;
+          skipping = false;
+          yield item;
+        }
+      }(this)),
+      "skipWhile",
+      this,
+    );
   }
 
   /**
-   * Iterates through the entire iterator reducing all items to one value.
-   * @param func a function executed on each item of the iterator with the previous value supplied.
-   * @param initial the initial value to be passed to the reducer function.
-   * @returns the iterator reduced down to a single value.
+   * Maps items with the provided function until it returns undefined, ending the iterator there.
+   * @param func a function to map items that returns undefined when the iterator should end.
+   * @returns a {@link Iter} of the mapped items up to the first undefined output.
    */
-  reduce<X>(func: (prev: X, item: T) => X, initial: X): X {
-    let result = initial;
+  mapWhile<Output>(func: (item: T) => Output | undefined): Iter<Output> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        for (const item of iter) {
+          const mapped = func(item);
+          if (mapped === undefined) return;
+          yield mapped;
+        }
+      }(this)),
+      "mapWhile",
+      this,
+    );
+  }
 
-    for (const item of this) {
-      result = func(result, item);
-    }
+  /**
+   * Yields every intermediate state of folding the items, ending the iterator once the function
+   * returns undefined.
+   * @param initial the state before the first item.
+   * @param func a function that returns the next state from the previous state and the item.
+   * @returns a {@link Iter} of states.
+   */
+  scan<X>(initial: X, func: (state: X, item: T) => X | undefined): Iter<X> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        let state = initial;
 
-    return result;
+        for (const item of iter) {
+          const next = func(state, item);
+          if (next === undefined) return;
+          yield state = next;
+        }
+      }(this)),
+      "scan",
+      this,
+    );
   }
 
   /**
-   * @returns the number of items the {@link Iter} will yield.
+   * Yields the first item and then every nth item after it.
+   * @param step the distance between yielded items.
+   * @returns a {@link Iter} that steps over the items.
    */
-  count(): number {
-    let count = 0;
+  stepBy(step: number): Iter<T> {
+    if (step < 1) throw new RangeError("step must be at least 1");
 
-    for (const _ of this) {
-      count++;
-    }
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        let index = 0;
 
-    return count;
+        for (const item of iter) {
+          if (index++ % step === 0) yield item;
+        }
+      }(this)),
+      "stepBy",
+      this,
+    );
   }
 
   /**
-   * Executes the provided function for every item in the iterator.
+   * Calls the provided function with every item before passing it on, which is useful for
+   * debugging a pipeline.
    * @param func a function that accepts items.
+   * @returns a {@link Iter} of the same items.
    */
-  forEach(func: (item: T) => void): void {
-    for (const item of this) {
-      func(item);
+  inspect(func: (item: T) => void): Iter<T> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        for (const item of iter) {
+          func(item);
+          yield item;
+        }
+      }(this)),
+      "inspect",
+      this,
+    );
+  }
+
+  /**
+   * Maps every item to an iterable and flattens the results by one level.
+   * @param func a function that maps an item to an iterable of outputs.
+   * @returns a {@link Iter} of all the outputs.
+   */
+  flatMap<Output>(func: (item: T) => Iterable<Output>): Iter<Output> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        for (const item of iter) {
+          yield* func(item);
+        }
+      }(this)),
+      "flatMap",
+      this,
+    );
+  }
+
+  /**
+   * Places the separator between every pair of adjacent items.
+   * @param separator the item to yield between items.
+   * @returns a {@link Iter} of the items with separators between them.
+   */
+  intersperse(separator: T): Iter<T> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        let first = true;
+
+        for (const item of iter) {
+          if (!first) yield separator;
+          first = false;
+          yield item;
+        }
+      }(this)),
+      "intersperse",
+      this,
+    );
+  }
+
+  /**
+   * Creates an iterator that keeps returning done once the underlying iterator has finished,
+   * even if the underlying iterator would yield more items afterwards.
+   * @returns a fused {@link Iter}.
+   */
+  fuse(): Iter<T> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        yield* iter;
+      }(this)),
+      "fuse",
+      this,
+    );
+  }
+
+  /**
+   * Passes the iterator through the standalone operators in order, which can also be custom
+   * functions taking and returning an iterable.
+   * @param operators the {@link Operator}s to apply, each receiving the output of the one before it.
+   * @returns a {@link Iter} of the items the last operator yields.
+   */
+  pipe(): Iter<T>;
+  pipe<A>(
+    op1: Operator<T, A>,
+  ): Iter<A>;
+  pipe<A, B>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+  ): Iter<B>;
+  pipe<A, B, C>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+  ): Iter<C>;
+  pipe<A, B, C, D>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>,
+  ): Iter<D>;
+  pipe<A, B, C, D, E>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>,
+    op5: Operator<D, E>,
+  ): Iter<E>;
+  pipe<A, B, C, D, E, F>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>,
+    op5: Operator<D, E>,
+    op6: Operator<E, F>,
+  ): Iter<F>;
+  pipe<A, B, C, D, E, F, G>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>,
+    op5: Operator<D, E>,
+    op6: Operator<E, F>,
+    op7: Operator<F, G>,
+  ): Iter<G>;
+  pipe<A, B, C, D, E, F, G, H>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>,
+    op5: Operator<D, E>,
+    op6: Operator<E, F>,
+    op7: Operator<F, G>,
+    op8: Operator<G, H>,
+  ): Iter<H>;
+  pipe<A, B, C, D, E, F, G, H, I>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>,
+    op5: Operator<D, E>,
+    op6: Operator<E, F>,
+    op7: Operator<F, G>,
+    op8: Operator<G, H>,
+    op9: Operator<H, I>,
+  ): Iter<I>;
+  pipe<A, B, C, D, E, F, G, H, I, J>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>,
+    op5: Operator<D, E>,
+    op6: Operator<E, F>,
+    op7: Operator<F, G>,
+    op8: Operator<G, H>,
+    op9: Operator<H, I>,
+    op10: Operator<I, J>,
+  ): Iter<J>;
+  pipe(...operators: Operator<never, unknown>[]): Iter<unknown>;
+  pipe(...operators: Operator<never, unknown>[]): Iter<unknown> {
+    // Each operator receives the output of the one before it, which the overloads check.
+    const output = operators.reduce<Iterable<unknown>>(
+      (source, operator) => (operator as Operator<unknown, unknown>)(source),
+      this,
+    );
+
+    return recordStage(new Iter(output[Symbol.iterator]()), "pipe", this);
+  }
+
+  /**
+   * Converts the iterator into an {@link AsyncIter}, closing this iterator when it's closed.
+   * @returns a {@link AsyncIter} of the same items.
+   */
+  toAsync(): AsyncIter<T> {
+    return recordStage(AsyncIter.fromIterable(this), "toAsync", this);
+  }
+
+  /**
+   * Converts the iterator into a native iterator, so the `Iterator.prototype` helpers can be used
+   * on it. Needs a runtime with the global `Iterator`, such as Deno, Node 22 or later and current
+   * browsers.
+   * @returns a native iterator of the same items, closing this iterator when closed.
+   * @throws {TypeError} if the runtime doesn't have the global `Iterator`.
+   */
+  toNative(): IteratorObject<T, undefined, unknown> {
+    if (typeof Iterator === "undefined") {
+      throw new TypeError(
+        "toNative needs the global Iterator, which this runtime doesn't have",
+      );
     }
+
+    return Iterator.from(this);
   }
 
   /**
-   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/iterator
+   * Names the iterator, telling it apart from other iterators created by the same method in
+   * {@link Iter.explain} and to an {@link Instrumentation}.
+   * @param name the name of the iterator.
+   * @returns the same {@link Iter}.
    */
-  next(): IteratorResult<T> {
-    return this.#inner.next();
+  named(name: string): this {
+    stageOf(this).name = name;
+    return this;
   }
+
   /**
-   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/iterator
+   * @returns the {@link Stage} of the iterator, describing the methods that created it and the
+   * iterators upstream of it.
    */
-  [Symbol.iterator](): Iterator<T, unknown, undefined> {
+  stage(): Stage {
+    return stageOf(this);
+  }
+
+  /**
+   * Observes the items produced by the iterator and every iterator upstream of it. Iterators
+   * without instrumentation aren't slowed down at all, so it should be attached before reading.
+   * @param instrumentation notified of every item produced, such as {@link Metrics}.
+   * @returns the same {@link Iter}.
+   */
+  instrument(instrumentation: Instrumentation): this {
+    instrumentStages(this, instrumentation);
     return this;
   }
+
+  /**
+   * Describes the pipeline leading up to the iterator as a tree, with the iterator at the root and
+   * the iterators it reads from below it.
+   * @param metrics what was measured for every iterator, which is shown next to it.
+   * @returns a line for every iterator in the pipeline.
+   */
+  explain(metrics?: Metrics): string {
+    return explainStage(stageOf(this), metrics);
+  }
+
+  /**
+   * Groups the items of the iterator into arrays of n items, the last array may be shorter if
+   * there aren't enough items left to fill it.
+   * @param size how many items are in each chunk.
+   * @returns a {@link Iter} of chunks of items.
+   */
+  chunks(size: number): Iter<T[]> {
+    if (size < 1) throw new RangeError("chunk size must be at least 1");
+
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        let chunk: T[] = [];
+
+        for (const item of iter) {
+          chunk.push(item);
+
+          if (chunk.length >= size) {
+            yield chunk;
+            chunk = [];
+          }
+        }
+
+        if (chunk.length > 0) yield chunk;
+      }(this)),
+      "chunks",
+      this,
+    );
+  }
+
+  /**
+   * Groups the items of the iterator into arrays of exactly n items, any items left over that
+   * couldn't fill a chunk are available from {@link ChunksExactIter.remainder}.
+   * @param size how many items are in each chunk.
+   * @returns a {@link ChunksExactIter} of chunks of items.
+   */
+  chunksExact(size: number): ChunksExactIter<T> {
+    if (size < 1) throw new RangeError("chunk size must be at least 1");
+
+    return recordStage(new ChunksExactIter(this, size), "chunksExact", this);
+  }
+
+  /**
+   * Creates sliding windows of n consecutive items over the iterator, each window overlapping the
+   * previous one by all but one item.
+   * @param size how many items are in each window.
+   * @returns a {@link Iter} of windows of items.
+   */
+  windows(size: number): Iter<T[]> {
+    if (size < 1) throw new RangeError("window size must be at least 1");
+
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        const window: T[] = [];
+
+        for (const item of iter) {
+          window.push(item);
+          if (window.length > size) window.shift();
+          if (window.length === size) yield [...window];
+        }
+      }(this)),
+      "windows",
+      this,
+    );
+  }
+
+  /**
+   * Groups runs of consecutive items with the same key, yielding each group once the key changes.
+   * Items with the same key that aren't next to each other end up in separate groups.
+   * @param key a function that extracts the key to group items by.
+   * @returns a {@link Iter} of keys and the consecutive items that share them.
+   */
+  chunkBy<K>(key: (item: T) => K): Iter<[K, T[]]> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        let group: [K, T[]] | undefined;
+
+        for (const item of iter) {
+          const itemKey = key(item);
+
+          if (group && group[0] === itemKey) {
+            group[1].push(item);
+            continue;
+          }
+
+          if (group) yield group;
+          group = [itemKey, [item]];
+        }
+
+        if (group) yield group;
+      }(this)),
+      "chunkBy",
+      this,
+    );
+  }
+
+  /**
+   * Removes consecutive repeated items, keeping the first of each run.
+   * @returns a {@link Iter} without consecutive duplicates.
+   */
+  dedup(): Iter<T> {
+    return recordStage(this.dedupBy((a, b) => a === b), "dedup", this);
+  }
+
+  /**
+   * Removes consecutive items that the function considers the same, keeping the first of each run.
+   * @param same a function that decides if an item is a duplicate of the last yielded item.
+   * @returns a {@link Iter} without consecutive duplicates.
+   */
+  dedupBy(same: (previous: T, item: T) => boolean): Iter<T> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        let first = true;
+        let previous: T;
+
+        for (const item of iter) {
+          if (!first && same(previous!, item)) continue;
+
+          yield item;
+          first = false;
+          previous = item;
+        }
+      }(this)),
+      "dedupBy",
+      this,
+    );
+  }
+
+  /**
+   * Removes consecutive items with the same key, keeping the first of each run.
+   * @param key a function that extracts the key to compare items by.
+   * @returns a {@link Iter} without consecutive duplicates.
+   */
+  dedupByKey<K>(key: (item: T) => K): Iter<T> {
+    return recordStage(
+      this.map((item) => [key(item), item] as const)
+        .dedupBy(([a], [b]) => a === b)
+        .map(([, item]) => item),
+      "dedupByKey",
+      this,
+    );
+  }
+
+  /**
+   * Removes every item that has already been yielded.
+   * @param options how many distinct items are remembered.
+   * @returns a {@link Iter} of distinct items.
+   */
+  unique(options: UniqueOptions = {}): Iter<T> {
+    return recordStage(this.uniqueBy((item) => item, options), "unique", this);
+  }
+
+  /**
+   * Removes every item whose key has already been yielded.
+   * @param key a function that extracts the key to compare items by.
+   * @param options how many distinct keys are remembered.
+   * @returns a {@link Iter} of items with distinct keys.
+   */
+  uniqueBy<K>(key: (item: T) => K, options: UniqueOptions = {}): Iter<T> {
+    const seen = new LruSet<K>(options.capacity);
+    return recordStage(
+      this.filter((item) => seen.add(key(item))),
+      "uniqueBy",
+      this,
+    );
+  }
+
+  /**
+   * Yields every combination of k items in the order they appear in the iterator. Items are only
+   * buffered once a combination needs them.
+   * Modelled after {@link https://docs.python.org/3/library/itertools.html#itertools.combinations}.
+   * @param k how many items are in each combination.
+   * @returns a {@link Iter} of combinations.
+   */
+  combinations(k: number): Iter<T[]> {
+    const pool = new LazyBuffer(this);
+
+    return recordStage(
+      withExactSize(combinations(pool, k), () => {
+        const n = pool.size();
+        return n === undefined ? undefined : binomial(n, k);
+      }, () => pool.close()),
+      "combinations",
+      this,
+    );
+  }
+
+  /**
+   * Yields every combination of k items where the same item may be picked more than once. Items
+   * are only buffered once a combination needs them.
+   * @param k how many items are in each combination.
+   * @returns a {@link Iter} of combinations.
+   */
+  combinationsWithReplacement(k: number): Iter<T[]> {
+    const pool = new LazyBuffer(this);
+
+    return recordStage(
+      withExactSize(combinationsWithReplacement(pool, k), () => {
+        const n = pool.size();
+        if (n === undefined) return undefined;
+        return k === 0 ? 1 : binomial(n + k - 1, k);
+      }, () => pool.close()),
+      "combinationsWithReplacement",
+      this,
+    );
+  }
+
+  /**
+   * Yields every ordering of k items from the iterator. The whole iterator is buffered before the
+   * first permutation, as every item can come first.
+   * @param k how many items are in each permutation, all of them if not provided.
+   * @returns a {@link Iter} of permutations.
+   */
+  permutations(k?: number): Iter<T[]> {
+    const pool = new LazyBuffer(this);
+
+    return recordStage(
+      withExactSize(permutations(pool, k), () => {
+        const n = pool.size();
+        return n === undefined ? undefined : arrangements(n, k ?? n);
+      }, () => pool.close()),
+      "permutations",
+      this,
+    );
+  }
+
+  /**
+   * Yields every subset of the items, from the empty set up to the set of all items. Items are
+   * only buffered once a subset needs them.
+   * @returns a {@link Iter} of subsets.
+   */
+  powerset(): Iter<T[]> {
+    const pool = new LazyBuffer(this);
+
+    return recordStage(
+      withExactSize(powerset(pool), () => {
+        const n = pool.size();
+        return n === undefined ? undefined : 2 ** n;
+      }, () => pool.close()),
+      "powerset",
+      this,
+    );
+  }
+
+  /**
+   * Flattens the iterator of elements by one level.
+   * @returns a {@link Iter} that yields all items in arrays yielded by the iterator.
+   */
+  flat<A extends Array<E>, E>(
+    this: Iter<A>,
+  ): Iter<A extends (infer U)[] ? U : never> {
+    return recordStage(
+      new Iter(function* (iter: Iter<A>) {
+        for (const item of iter) {
+          // deno-lint-ignore no-explicit-any
+          yield* item as unknown as any;
+        }
+      }(this)),
+      "flat",
+      this,
+    );
+  }
+
+  /**
+   * Wraps every item in a successful {@link Result}, turning an error thrown by the iterator into
+   * a failed {@link Result} that ends the iterator. Anything can be thrown, so the errors are
+   * `unknown` until they are narrowed with {@link Iter.mapErr}.
+   * @returns a {@link Iter} of results.
+   */
+  intoResults(): Iter<Result<T, unknown>> {
+    return recordStage(
+      new Iter(function* (iter: Iter<T>) {
+        let done = false;
+
+        try {
+          while (true) {
+            let result: IteratorResult<T>;
+
+            try {
+              result = iter.next();
+            } catch (error) {
+              // An iterator that has thrown won't produce any more items.
+              done = true;
+              yield err(error);
+              return;
+            }
+
+            if ((done = result.done ?? true)) return;
+            yield ok(result.value);
+          }
+        } finally {
+          if (!done) iter.return();
+        }
+      }(this)),
+      "intoResults",
+      this,
+    );
+  }
+
+  /**
+   * Maps the values of successful results, errors thrown by the function become failed results
+   * and failed results are passed through untouched.
+   * @param func a function to map values.
+   * @returns a {@link Iter} of results where all values have been mapped by the function.
+   */
+  tryMap<Value, E, Output>(
+    this: Iter<Result<Value, E>>,
+    func: (value: Value) => Output,
+  ): Iter<Result<Output, unknown>> {
+    return recordStage(
+      this.map((result) => {
+        if (!result.ok) return result;
+
+        try {
+          return ok(func(result.value));
+        } catch (error) {
+          return err(error);
+        }
+      }),
+      "tryMap",
+      this,
+    );
+  }
+
+  /**
+   * Filters the values of successful results, errors thrown by the predicate become failed
+   * results and failed results are passed through untouched.
+   * @param predicate if the value should be included in the resulting iterator.
+   * @returns a {@link Iter} of results where all values have passed the predicate.
+   */
+  tryFilter<Value, E>(
+    this: Iter<Result<Value, E>>,
+    predicate: (value: Value) => boolean,
+  ): Iter<Result<Value, unknown>> {
+    return recordStage(
+      this.filterMap((result) => {
+        if (!result.ok) return result;
+
+        try {
+          return predicate(result.value) ? result : undefined;
+        } catch (error) {
+          return err(error);
+        }
+      }),
+      "tryFilter",
+      this,
+    );
+  }
+
+  /**
+   * Maps the errors of failed results, successful results are passed through untouched.
+   * @param func a function to map errors.
+   * @returns a {@link Iter} of results where all errors have been mapped by the function.
+   */
+  mapErr<Value, E, F>(
+    this: Iter<Result<Value, E>>,
+    func: (error: E) => F,
+  ): Iter<Result<Value, F>> {
+    return recordStage(
+      this.map((result) => result.ok ? result : err(func(result.error))),
+      "mapErr",
+      this,
+    );
+  }
+
+  /**
+   * Recovers from failed results by replacing their errors with a value, errors thrown by the
+   * handler become failed results.
+   * @param handler a function that creates a value from an error.
+   * @returns a {@link Iter} of results where all errors have been handled.
+   */
+  catchError<Value, E>(
+    this: Iter<Result<Value, E>>,
+    handler: (error: E) => Value,
+  ): Iter<Result<Value, unknown>> {
+    return recordStage(
+      this.map((result) => {
+        if (result.ok) return result;
+
+        try {
+          return ok(handler(result.error));
+        } catch (error) {
+          return err(error);
+        }
+      }),
+      "catchError",
+      this,
+    );
+  }
+
+  /**
+   * Maps the values of successful results, running the function again for the same value when it
+   * throws for as long as the policy allows. The last error thrown becomes a failed result and
+   * failed results are passed through untouched.
+   * @param func a function to map values.
+   * @param policy how many times the function is run for a value.
+   * @returns a {@link Iter} of results where all values have been mapped by the function.
+   */
+  retry<Value, E, Output>(
+    this: Iter<Result<Value, E>>,
+    func: (value: Value) => Output,
+    policy: RetryPolicy,
+  ): Iter<Result<Output, unknown>> {
+    return recordStage(
+      this.map((result) => {
+        if (!result.ok) return result;
+
+        for (let attempt = 1;; attempt++) {
+          try {
+            return ok(func(result.value));
+          } catch (error) {
+            const retry = attempt < policy.attempts &&
+              (policy.shouldRetry?.(error, attempt) ?? true);
+            if (!retry) return err(error);
+          }
+        }
+      }),
+      "retry",
+      this,
+    );
+  }
+
+  /**
+   * Creates an iterator that can look at the next item without consuming it.
+   * @returns a {@link PeekableIter} over the items of the iterator.
+   */
+  peekable(): PeekableIter<T> {
+    return recordStage(
+      new PeekableIter(this, () => this.sizeHint()),
+      "peekable",
+      this,
+    );
+  }
+
+  /**
+   * Splits the iterator into n branches that each yield every item, buffering the items that
+   * some branches have read and others haven't yet. The iterator is closed once every branch has
+   * been closed.
+   * @param n how many branches to create.
+   * @param options how far branches can fall behind each other.
+   * @returns the branches.
+   * @throws {RangeError} from a branch's next when reading further would overflow the buffer of
+   * another branch.
+   */
+  tee(n = 2, options: TeeOptions = {}): Iter<T>[] {
+    if (n < 1) throw new RangeError("tee needs at least 1 branch");
+
+    const bufferSize = options.bufferSize ?? Infinity;
+    // The items each branch has yet to read, or undefined once the branch has been closed.
+    const queues: (T[] | undefined)[] = Array.from({ length: n }, () => []);
+    let finished = false;
+    let failure: { error: unknown } | undefined;
+
+    const pull = () => {
+      if (queues.some((queue) => queue && queue.length >= bufferSize)) {
+        throw new RangeError("tee buffer is full");
+      }
+
+      try {
+        const result = this.next();
+        finished = result.done ?? true;
+        if (!result.done) queues.forEach((queue) => queue?.push(result.value));
+      } catch (error) {
+        finished = true;
+        failure = { error };
+      }
+    };
+
+    return queues.map((_, index) =>
+      new Iter<T>({
+        next: () => {
+          while (true) {
+            const queue = queues[index];
+            if (queue === undefined) return { done: true, value: undefined };
+            if (queue.length > 0) return { done: false, value: queue.shift()! };
+            if (finished && failure) {
+              queues[index] = undefined;
+              throw failure.error;
+            }
+            if (finished) return { done: true, value: undefined };
+
+            pull();
+          }
+        },
+        return: (value?: unknown) => {
+          queues[index] = undefined;
+
+          if (!finished && queues.every((queue) => queue === undefined)) {
+            finished = true;
+            this.return();
+          }
+
+          return { done: true, value };
+        },
+      }, () => {
+        const buffered = queues[index]?.length ?? 0;
+        if (queues[index] === undefined || finished) {
+          return [buffered, buffered];
+        }
+
+        const [lower, upper] = this.sizeHint();
+        return [
+          lower + buffered,
+          upper === undefined ? undefined : upper + buffered,
+        ];
+      })
+    );
+  }
+
+  /**
+   * Iterates through the entire iterator and collects the items as an array.
+   * @returns all the items in the iterator as an array.
+   */
+  collect(): T[] {
+    // Allocate the whole array upfront when the number of items is known.
+    const [lower, upper] = this.sizeHint();
+    const items: T[] = lower === upper ? new Array(lower) : [];
+    let index = 0;
+
+    for (const item of this) {
+      items[index++] = item;
+    }
+
+    items.length = index;
+    return items;
+  }
+
+  /**
+   * Iterates through the entire iterator of key value pairs and collects them as a map, later
+   * pairs overwriting earlier pairs with the same key.
+   * @returns all the pairs in the iterator as a map.
+   */
+  toMap<K, V>(this: Iter<[K, V]>): Map<K, V> {
+    return new Map(this);
+  }
+
+  /**
+   * Iterates through the entire iterator and collects the distinct items as a set.
+   * @returns all the items in the iterator as a set.
+   */
+  toSet(): Set<T> {
+    return new Set(this);
+  }
+
+  /**
+   * Iterates through the entire iterator of key value pairs and collects them as an object, later
+   * pairs overwriting earlier pairs with the same key.
+   * @returns all the pairs in the iterator as an object.
+   */
+  toObject<K extends PropertyKey, V>(this: Iter<[K, V]>): Record<K, V> {
+    return Object.fromEntries(this) as Record<K, V>;
+  }
+
+  /**
+   * Iterates through the entire iterator and joins the items into a string.
+   * @param separator the string placed between items.
+   * @returns the items converted to strings and joined by the separator.
+   */
+  join(separator = ","): string {
+    let joined = "";
+    let first = true;
+
+    for (const item of this) {
+      if (!first) joined += separator;
+      first = false;
+      joined += String(item);
+    }
+
+    return joined;
+  }
+
+  /**
+   * Iterates through the entire iterator and collects the items into the collector's container.
+   * @param collector creates the container and adds items to it.
+   * @returns the container holding all the items in the iterator.
+   */
+  collectInto<C>(collector: Collector<T, C>): C {
+    let container = collector.create();
+
+    for (const item of this) {
+      container = collector.add(container, item);
+    }
+
+    return container;
+  }
+
+  /**
+   * Iterates through the entire iterator reducing all items to one value.
+   * @param func a function executed on each item of the iterator with the previous value supplied.
+   * @param initial the initial value to be passed to the reducer function.
+   * @returns the iterator reduced down to a single value.
+   */
+  reduce<X>(func: (prev: X, item: T) => X, initial: X): X {
+    let result = initial;
+
+    for (const item of this) {
+      result = func(result, item);
+    }
+
+    return result;
+  }
+
+  /**
+   * @returns the number of items the {@link Iter} will yield.
+   */
+  count(): number {
+    let count = 0;
+
+    for (const _ of this) {
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Iterates through the iterator until an item matches the predicate.
+   * @param predicate a function that decides if an item is the one being searched for.
+   * @returns the first item that matched the predicate, or undefined if none did.
+   */
+  find(predicate: (item: T) => boolean): T | undefined {
+    for (const item of this) {
+      if (predicate(item)) return item;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterates through the iterator until the function returns a value other than undefined.
+   * @param func a function that maps items, returning undefined for items that don't match.
+   * @returns the first mapped value that wasn't undefined, or undefined if there was none.
+   */
+  findMap<Output>(func: (item: T) => Output | undefined): Output | undefined {
+    for (const item of this) {
+      const output = func(item);
+      if (output !== undefined) return output;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterates through the iterator until an item matches the predicate.
+   * @param predicate a function that decides if an item is the one being searched for.
+   * @returns the index of the first item that matched the predicate, or undefined if none did.
+   */
+  position(predicate: (item: T) => boolean): number | undefined {
+    let index = 0;
+
+    for (const item of this) {
+      if (predicate(item)) return index;
+      index++;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterates through the iterator until an item matches the predicate.
+   * @param predicate a function that tests items.
+   * @returns true if any item matched the predicate.
+   */
+  any(predicate: (item: T) => boolean): boolean {
+    for (const item of this) {
+      if (predicate(item)) return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Iterates through the iterator until an item doesn't match the predicate.
+   * @param predicate a function that tests items.
+   * @returns true if every item matched the predicate, including when the iterator is empty.
+   */
+  all(predicate: (item: T) => boolean): boolean {
+    for (const item of this) {
+      if (!predicate(item)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Iterates through the entire iterator, keeping only the last item.
+   * @returns the last item, or undefined if the iterator is empty.
+   */
+  last(): T | undefined {
+    let last: T | undefined;
+
+    for (const item of this) {
+      last = item;
+    }
+
+    return last;
+  }
+
+  /**
+   * Consumes the iterator up to and including the nth item.
+   * @param n the zero based index of the item.
+   * @returns the nth item, or undefined if the iterator ends before reaching it.
+   */
+  nth(n: number): T | undefined {
+    if (n < 0) return undefined;
+
+    let index = 0;
+
+    for (const item of this) {
+      if (index++ === n) return item;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Iterates through the entire iterator to find the smallest item, keeping the first of equal
+   * items.
+   * @param compare a function that orders two items.
+   * @returns the smallest item, or undefined if the iterator is empty.
+   */
+  minBy(compare: Comparator<T>): T | undefined {
+    // Items can be undefined themselves, so whether an item was seen is tracked separately.
+    let seen = false;
+
+    return this.reduce<T | undefined>((min, item) => {
+      const replace = !seen || compare(item, min as T) < 0;
+      seen = true;
+      return replace ? item : min;
+    }, undefined);
+  }
+
+  /**
+   * Iterates through the entire iterator to find the largest item, keeping the last of equal items.
+   * @param compare a function that orders two items.
+   * @returns the largest item, or undefined if the iterator is empty.
+   */
+  maxBy(compare: Comparator<T>): T | undefined {
+    let seen = false;
+
+    return this.reduce<T | undefined>((max, item) => {
+      const replace = !seen || compare(item, max as T) >= 0;
+      seen = true;
+      return replace ? item : max;
+    }, undefined);
+  }
+
+  /**
+   * Iterates through the entire iterator to find the item with the smallest key, keeping the first
+   * of equal items.
+   * @param key a function that extracts the key to order items by.
+   * @returns the item with the smallest key, or undefined if the iterator is empty.
+   */
+  minByKey<K>(key: (item: T) => K): T | undefined {
+    return this.map((item) => [key(item), item] as const)
+      .minBy(([a], [b]) => defaultCompare(a, b))?.[1];
+  }
+
+  /**
+   * Iterates through the entire iterator to find the item with the largest key, keeping the last
+   * of equal items.
+   * @param key a function that extracts the key to order items by.
+   * @returns the item with the largest key, or undefined if the iterator is empty.
+   */
+  maxByKey<K>(key: (item: T) => K): T | undefined {
+    return this.map((item) => [key(item), item] as const)
+      .maxBy(([a], [b]) => defaultCompare(a, b))?.[1];
+  }
+
+  /**
+   * Iterates through the entire iterator adding up the numbers.
+   * @returns the sum of all numbers, or 0 if the iterator is empty.
+   */
+  sum(this: Iter<number>): number {
+    return this.reduce((sum, item) => sum + item, 0);
+  }
+
+  /**
+   * Iterates through the entire iterator multiplying the numbers.
+   * @returns the product of all numbers, or 1 if the iterator is empty.
+   */
+  product(this: Iter<number>): number {
+    return this.reduce((product, item) => product * item, 1);
+  }
+
+  /**
+   * Iterates through the entire iterator splitting the items in two by the predicate.
+   * @param predicate a function that decides which array an item belongs in.
+   * @returns the items that matched the predicate and the items that didn't.
+   */
+  partition(predicate: (item: T) => boolean): [T[], T[]] {
+    const matched: T[] = [];
+    const unmatched: T[] = [];
+
+    for (const item of this) {
+      (predicate(item) ? matched : unmatched).push(item);
+    }
+
+    return [matched, unmatched];
+  }
+
+  /**
+   * Iterates through the entire iterator grouping items by their key.
+   * @param key a function that extracts the key to group items by.
+   * @returns a map of keys, in the order they were first seen, to the items that share them.
+   */
+  groupBy<K>(key: (item: T) => K): Map<K, T[]> {
+    const groups = new Map<K, T[]>();
+
+    for (const item of this) {
+      const itemKey = key(item);
+      const group = groups.get(itemKey);
+
+      if (group) group.push(item);
+      else groups.set(itemKey, [item]);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Iterates through the entire iterator counting items by their key.
+   * @param key a function that extracts the key to count items by.
+   * @returns a map of keys, in the order they were first seen, to how many items share them.
+   */
+  countBy<K>(key: (item: T) => K): Map<K, number> {
+    const counts = new Map<K, number>();
+
+    for (const item of this) {
+      const itemKey = key(item);
+      counts.set(itemKey, (counts.get(itemKey) ?? 0) + 1);
+    }
+
+    return counts;
+  }
+
+  /**
+   * Iterates through the entire iterator of pairs splitting them into two arrays.
+   * @returns the first items of each pair and the second items of each pair.
+   */
+  unzip<A, B>(this: Iter<[A, B]>): [A[], B[]] {
+    const left: A[] = [];
+    const right: B[] = [];
+
+    for (const [a, b] of this) {
+      left.push(a);
+      right.push(b);
+    }
+
+    return [left, right];
+  }
+
+  /**
+   * Iterates through the entire iterator folding all items into one value, like
+   * {@link Iter.reduce} with the initial value first.
+   * @param initial the initial value to be passed to the folding function.
+   * @param func a function executed on each item of the iterator with the previous value supplied.
+   * @returns the iterator folded down to a single value.
+   */
+  fold<X>(initial: X, func: (prev: X, item: T) => X): X {
+    return this.reduce(func, initial);
+  }
+
+  /**
+   * Iterates through the iterator folding all items into one value, stopping at the first failed
+   * result.
+   * @param initial the initial value to be passed to the folding function.
+   * @param func a function executed on each item of the iterator with the previous value supplied.
+   * @returns the folded value, or the first failed result.
+   */
+  tryFold<X, E>(
+    initial: X,
+    func: (prev: X, item: T) => Result<X, E>,
+  ): Result<X, E> {
+    let result = initial;
+
+    for (const item of this) {
+      const folded = func(result, item);
+      if (!folded.ok) return folded;
+      result = folded.value;
+    }
+
+    return ok(result);
+  }
+
+  /**
+   * Compares the items of both iterators in order, stopping at the first unequal pair. An iterator
+   * that ends first is smaller than the other.
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @returns -1 if this iterator is smaller, 1 if it is larger and 0 if both are equal.
+   */
+  cmp(other: Iterable<T>, compare: Comparator<T> = defaultCompare): number {
+    const right = other[Symbol.iterator]();
+    let leftDone = false;
+    let rightDone = false;
+
+    try {
+      while (true) {
+        const a = this.next();
+        leftDone = !!a.done;
+        const b = right.next();
+        rightDone = !!b.done;
+
+        if (a.done || b.done) {
+          return Number(!a.done) - Number(!b.done);
+        }
+
+        const order = Math.sign(compare(a.value, b.value));
+        if (order !== 0) return order;
+      }
+    } finally {
+      if (!leftDone) this.return();
+      if (!rightDone) right.return?.();
+    }
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @returns true if both iterators yield strictly equal items in the same order.
+   */
+  eq(other: Iterable<T>): boolean {
+    return this.cmp(other, (a, b) => a === b ? 0 : 1) === 0;
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @returns true if the iterators yield different items.
+   */
+  ne(other: Iterable<T>): boolean {
+    return !this.eq(other);
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @returns true if this iterator is lexicographically smaller than the other.
+   */
+  lt(other: Iterable<T>, compare?: Comparator<T>): boolean {
+    return this.cmp(other, compare) < 0;
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @returns true if this iterator is lexicographically smaller than or equal to the other.
+   */
+  le(other: Iterable<T>, compare?: Comparator<T>): boolean {
+    return this.cmp(other, compare) <= 0;
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @returns true if this iterator is lexicographically larger than the other.
+   */
+  gt(other: Iterable<T>, compare?: Comparator<T>): boolean {
+    return this.cmp(other, compare) > 0;
+  }
+
+  /**
+   * @param other the iterable to compare against.
+   * @param compare a function that orders two items.
+   * @returns true if this iterator is lexicographically larger than or equal to the other.
+   */
+  ge(other: Iterable<T>, compare?: Comparator<T>): boolean {
+    return this.cmp(other, compare) >= 0;
+  }
+
+  /**
+   * Executes the provided function for every item in the iterator.
+   * @param func a function that accepts items.
+   */
+  forEach(func: (item: T) => void): void {
+    for (const item of this) {
+      func(item);
+    }
+  }
+
+  /**
+   * Iterates through the iterator and collects the values of the results as an array, stopping at
+   * the first failed result.
+   * @returns all the values in the iterator as an array.
+   * @throws the error of the first failed result.
+   */
+  tryCollect<Value, E>(this: Iter<Result<Value, E>>): Value[] {
+    const values: Value[] = [];
+
+    for (const result of this) {
+      if (!result.ok) throw result.error;
+      values.push(result.value);
+    }
+
+    return values;
+  }
+
+  /**
+   * Executes the provided function for the value of every result in the iterator, stopping at the
+   * first failed result.
+   * @param func a function that accepts values.
+   * @throws the error of the first failed result.
+   */
+  tryForEach<Value, E>(
+    this: Iter<Result<Value, E>>,
+    func: (value: Value) => void,
+  ): void {
+    for (const result of this) {
+      if (!result.ok) throw result.error;
+      func(result.value);
+    }
+  }
+
+  /**
+   * @returns the bounds on how many items the iterator has left, which are unknown unless the
+   * iterator was created with a size hint.
+   */
+  sizeHint(): SizeHint {
+    return this.#sizeHint?.() ?? [0, undefined];
+  }
+
+  /**
+   * @returns exactly how many items the iterator has left, without consuming any of them.
+   * @throws {TypeError} if the iterator doesn't know exactly how many items it has left.
+   */
+  len(): number {
+    const [lower, upper] = this.sizeHint();
+    if (lower !== upper) {
+      throw new TypeError("iterator doesn't have an exact size");
+    }
+
+    return lower;
+  }
+
+  /**
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/iterator
+   */
+  next(): IteratorResult<T> {
+    return this.#inner.next();
+  }
+
+  /**
+   * Closes the underlying iterator, letting it release any resources it holds.
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Iteration_protocols
+   */
+  return(value?: unknown): IteratorResult<T> {
+    return this.#inner.return?.(value) ?? { done: true, value };
+  }
+
+  /**
+   * Throws the error into the underlying iterator, closing it if it can't handle errors.
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Iteration_protocols
+   */
+  throw(error?: unknown): IteratorResult<T> {
+    if (this.#inner.throw) return this.#inner.throw(error);
+
+    this.return();
+    throw error;
+  }
+
+  /**
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/iterator
+   */
+  [Symbol.iterator](): Iterator<T, unknown, undefined> {
+    return this;
+  }
+}
+
+/**
+ * An {@link Iter} that can look at the next item without consuming it.
+ * Modelled after {@link https://doc.rust-lang.org/stable/std/iter/struct.Peekable.html}.
+ */
+export class PeekableIter<T> extends Iter<T> {
+  #peeked?: IteratorResult<T>;
+
+  /**
+   * @returns the next item without advancing the iterator, or undefined if it is exhausted.
+   */
+  peek(): T | undefined {
+    const result = this.#peeked ??= super.next();
+    return result.done ? undefined : result.value;
+  }
+
+  /**
+   * Consumes the next item only if it passes the predicate.
+   * @param predicate if the next item should be consumed.
+   * @returns the next item if it passed the predicate, otherwise undefined.
+   */
+  nextIf(predicate: (item: T) => boolean): T | undefined {
+    const result = this.#peeked ??= super.next();
+    if (result.done || !predicate(result.value)) return undefined;
+
+    this.#peeked = undefined;
+    return result.value;
+  }
+
+  /**
+   * Consumes the next item only if it is equal to the expected value.
+   * @param expected the value the next item is compared against.
+   * @returns the next item if it was equal to the expected value, otherwise undefined.
+   */
+  nextIfEq(expected: T): T | undefined {
+    return this.nextIf((item) => item === expected);
+  }
+
+  /**
+   * @returns the bounds on how many items the iterator has left, including a peeked item.
+   */
+  override sizeHint(): SizeHint {
+    const peeked = this.#peeked;
+    if (peeked === undefined) return super.sizeHint();
+    if (peeked.done) return [0, 0];
+
+    const [lower, upper] = super.sizeHint();
+    return [lower + 1, upper === undefined ? undefined : upper + 1];
+  }
+
+  /**
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Symbol/iterator
+   */
+  override next(): IteratorResult<T> {
+    const peeked = this.#peeked;
+    if (peeked === undefined) return super.next();
+
+    // Keep returning the end of the iterator rather than polling an exhausted iterator again.
+    if (!peeked.done) this.#peeked = undefined;
+    return peeked;
+  }
+
+  /**
+   * Closes the underlying iterator, letting it release any resources it holds.
+   * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Iteration_protocols
+   */
+  override return(value?: unknown): IteratorResult<T> {
+    this.#peeked = undefined;
+    return super.return(value);
+  }
+}
+
+/**
+ * An {@link Iter} of chunks with exactly n items that keeps hold of the items left over.
+ * Modelled after {@link https://doc.rust-lang.org/stable/std/slice/struct.ChunksExact.html}.
+ */
+export class ChunksExactIter<T> extends Iter<T[]> {
+  #state: { remainder: T[] };
+
+  constructor(iter: Iter<T>, size: number) {
+    const state = { remainder: [] as T[] };
+
+    super(function* () {
+      let chunk: T[] = [];
+
+      for (const item of iter) {
+        chunk.push(item);
+
+        if (chunk.length >= size) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+
+      state.remainder = chunk;
+    }());
+
+    this.#state = state;
+  }
+
+  /**
+   * @returns the items that didn't fill a whole chunk, only known once the iterator is exhausted.
+   */
+  remainder(): T[] {
+    return this.#state.remainder;
+  }
+}
+
+/**
+ * An iterator that can also be read from the back.
+ */
+export interface DoubleEndedIterator<T> extends Iterator<T> {
+  /**
+   * @returns the item at the back of the iterator, removing it from the iterator.
+   */
+  nextBack(): IteratorResult<T>;
+}
+
+/**
+ * An {@link Iter} that can be read from both ends, with both ends meeting in the middle.
+ * Modelled after {@link https://doc.rust-lang.org/stable/std/iter/trait.DoubleEndedIterator.html}.
+ * @typeParam Exact whether the iterator is known to always know exactly how many items it has
+ * left, which adapters such as {@link DoubleEndedIter.enumerate} need to read from the back.
+ */
+export class DoubleEndedIter<T, Exact extends boolean = boolean>
+  extends Iter<T> {
+  #inner: DoubleEndedIterator<T>;
+  // Only exists in the type, so iterators that aren't exact can't be used as ones that are.
+  declare private readonly exact?: Exact;
+
+  /**
+   * @param inner the double ended iterator to wrap.
+   * @param sizeHint a function that reports how many items the iterator has left, if known.
+   */
+  constructor(inner: DoubleEndedIterator<T>, sizeHint?: () => SizeHint) {
+    super(inner, sizeHint);
+    this.#inner = inner;
+  }
+
+  /**
+   * @returns the item at the back of the iterator, removing it from the iterator.
+   */
+  nextBack(): IteratorResult<T> {
+    return this.#inner.nextBack();
+  }
+
+  /**
+   * Reverses the direction of the iterator.
+   * @returns a {@link DoubleEndedIter} that yields items from the back first.
+   */
+  rev(): DoubleEndedIter<T, Exact> {
+    return recordStage(
+      new DoubleEndedIter<T, Exact>({
+        next: () => this.nextBack(),
+        nextBack: () => this.next(),
+        return: (value?: unknown) => this.return(value),
+      }, () => this.sizeHint()),
+      "rev",
+      this,
+    );
+  }
+
+  /**
+   * Iterates from the back of the iterator until an item matches the predicate.
+   * @param predicate a function that decides if an item is the one being searched for.
+   * @returns the last item that matched the predicate, or undefined if none did.
+   */
+  rfind(predicate: (item: T) => boolean): T | undefined {
+    return this.rev().find(predicate);
+  }
+
+  /**
+   * Iterates from the back of the iterator until an item matches the predicate, which needs the
+   * iterator to know exactly how many items it has left.
+   * @param predicate a function that decides if an item is the one being searched for.
+   * @returns the index from the front of the last item that matched the predicate, or undefined
+   * if none did.
+   */
+  rposition(
+    this: DoubleEndedIter<T, true>,
+    predicate: (item: T) => boolean,
+  ): number | undefined {
+    const length = this.len();
+    const position = this.rev().position(predicate);
+    return position === undefined ? undefined : length - position - 1;
+  }
+
+  /**
+   * Consumes the iterator from the back up to and including the nth item from the back.
+   * @param n the zero based index of the item, counting from the back.
+   * @returns the nth item from the back, or undefined if the iterator ends before reaching it.
+   */
+  nthBack(n: number): T | undefined {
+    return this.rev().nth(n);
+  }
+
+  /**
+   * Takes the item at the back of the iterator rather than reading through the whole iterator.
+   * @returns the last item, or undefined if the iterator is empty.
+   */
+  override last(): T | undefined {
+    const result = this.nextBack();
+    this.return();
+    return result.done ? undefined : result.value;
+  }
+
+  /**
+   * Maps the items in the iterator with the provided function.
+   * @param func a function to map items.
+   * @returns a {@link DoubleEndedIter} where all elements have been mapped by the provided
+   * function.
+   */
+  override map<Output>(
+    func: (item: T) => Output,
+  ): DoubleEndedIter<Output, Exact> {
+    const mapResult = (result: IteratorResult<T>): IteratorResult<Output> =>
+      result.done ? result : { done: false, value: func(result.value) };
+
+    return recordStage(
+      new DoubleEndedIter<Output, Exact>({
+        next: () => mapResult(this.next()),
+        nextBack: () => mapResult(this.nextBack()),
+        return: (value?: unknown) => {
+          this.return();
+          return { done: true, value };
+        },
+      }, () => this.sizeHint()),
+      "map",
+      this,
+    );
+  }
+
+  /**
+   * Filters elements that pass through the iterator.
+   * @param predicate if the item should be included in the resulting iterator.
+   * @returns a {@link DoubleEndedIter} where all elements have passed the predicate.
+   */
+  override filter(predicate: (item: T) => boolean): DoubleEndedIter<T, false> {
+    const find = (next: () => IteratorResult<T>) => {
+      while (true) {
+        const result = next();
+        if (result.done || predicate(result.value)) return result;
+      }
+    };
+
+    return recordStage(
+      new DoubleEndedIter<T, false>({
+        next: () => find(() => this.next()),
+        nextBack: () => find(() => this.nextBack()),
+        return: (value?: unknown) => this.return(value),
+      }, () => [0, this.sizeHint()[1]]),
+      "filter",
+      this,
+    );
+  }
+
+  /**
+   * Tags every item in the iterator with it's index. Reading from the back needs the iterator to
+   * know exactly how many items it has left, so other iterators are enumerated like an {@link Iter}.
+   * @returns a {@link DoubleEndedIter} with items and their index.
+   */
+  override enumerate(
+    this: DoubleEndedIter<T, true>,
+  ): DoubleEndedIter<[number, T], true>;
+  override enumerate(): Iter<[number, T]>;
+  override enumerate(): Iter<[number, T]> {
+    if (!hasExactSize(this)) return super.enumerate();
+
+    let front = 0;
+
+    return recordStage(
+      new DoubleEndedIter<[number, T], true>({
+        next: () => {
+          const result = this.next();
+          return result.done
+            ? result
+            : { done: false, value: [front++, result.value] };
+        },
+        nextBack: () => {
+          const index = front + this.len() - 1;
+          const result = this.nextBack();
+          return result.done
+            ? result
+            : { done: false, value: [index, result.value] };
+        },
+        return: (value?: unknown) => {
+          this.return();
+          return { done: true, value };
+        },
+      }, () => this.sizeHint()),
+      "enumerate",
+      this,
+    );
+  }
+
+  /**
+   * Chains all provided iterables into one {@link Iter}, which can be read from the back when all
+   * of them are arrays or {@link DoubleEndedIter}s.
+   * @param next iterables to be appended onto the current one.
+   * @returns all iterables chained onto the current {@link Iter}.
+   */
+  override chain(
+    this: DoubleEndedIter<T, true>,
+    ...next: (DoubleEndedIter<T, true> | readonly T[])[]
+  ): DoubleEndedIter<T, true>;
+  override chain(
+    ...next: (DoubleEndedIter<T> | readonly T[])[]
+  ): DoubleEndedIter<T>;
+  override chain(...next: Iterable<T>[]): Iter<T>;
+  override chain(...next: Iterable<T>[]): Iter<T> {
+    if (!next.every(isDoubleEnded)) return super.chain(...next);
+
+    const parts = [this, ...next.map(doubleEnded)];
+    // The parts that haven't been exhausted from either end yet.
+    let front = 0;
+    let back = parts.length - 1;
+
+    return recordStage(
+      new DoubleEndedIter<T>(
+        {
+          next: () => {
+            for (; front <= back; front++) {
+              const result = parts[front].next();
+              if (!result.done) return result;
+            }
+
+            return { done: true, value: undefined };
+          },
+          nextBack: () => {
+            for (; back >= front; back--) {
+              const result = parts[back].nextBack();
+              if (!result.done) return result;
+            }
+
+            return { done: true, value: undefined };
+          },
+          return: (value?: unknown) => {
+            for (; front <= back; front++) parts[front].return();
+            return { done: true, value };
+          },
+        },
+        () =>
+          sumHints(parts.slice(front, back + 1).map((part) => part.sizeHint())),
+      ),
+      "chain",
+      this,
+      ...next,
+    );
+  }
+
+  /**
+   * Combines the result of both iterators into one {@link Iter} with items of tuples from the
+   * left and right iterator, which can be read from the back when the right iterator is an array
+   * or a {@link DoubleEndedIter}. Reading from the back needs both iterators to know exactly how
+   * many items they have left, so the longer one can be trimmed first. Other iterators are zipped
+   * like an {@link Iter}.
+   * @param right the iterator to be zipped and have it's values on the right of the resulting
+   * iterator.
+   * @returns a zipped {@link Iter}
+   */
+  override zip<R>(
+    this: DoubleEndedIter<T, true>,
+    right: DoubleEndedIter<R, true> | readonly R[],
+  ): DoubleEndedIter<[T, R], true>;
+  override zip<R>(right: Iterable<R>): Iter<[T, R]>;
+  override zip<R>(right: Iterable<R>): Iter<[T, R]> {
+    if (!isDoubleEnded(right)) return super.zip(right);
+
+    const rightIter = doubleEnded(right);
+    if (!hasExactSize(this) || !hasExactSize(rightIter)) {
+      return recordStage(super.zip(rightIter), "zip", this, right);
+    }
+    const close = (value?: unknown): IteratorResult<[T, R]> => {
+      this.return();
+      rightIter.return();
+      return { done: true, value };
+    };
+
+    return recordStage(
+      new DoubleEndedIter<[T, R], true>({
+        next: () => {
+          const left = this.next();
+          if (left.done) return close();
+
+          const right = rightIter.next();
+          if (right.done) return close();
+
+          return { done: false, value: [left.value, right.value] };
+        },
+        nextBack: () => {
+          // Drop the items at the back of the longer iterator that have nothing to pair with.
+          for (let extra = this.len() - rightIter.len(); extra > 0; extra--) {
+            this.nextBack();
+          }
+          for (let extra = rightIter.len() - this.len(); extra > 0; extra--) {
+            rightIter.nextBack();
+          }
+
+          const left = this.nextBack();
+          const right = rightIter.nextBack();
+          if (left.done || right.done) return close();
+
+          return { done: false, value: [left.value, right.value] };
+        },
+        return: close,
+      }, () => minHints(this.sizeHint(), rightIter.sizeHint())),
+      "zip",
+      this,
+      right,
+    );
+  }
+}
+
+/**
+ * Wraps the iterator in an {@link Iter} that knows exactly how many items it has left once the
+ * total is known, closing the sources the items are drawn from when it's done.
+ * @param inner the iterator to wrap.
+ * @param total a function that returns how many items the iterator yields in total, if known.
+ * @param close a function that closes the sources of the iterator.
+ * @returns a {@link Iter} with an exact size hint.
+ */
+function withExactSize<T>(
+  inner: Iterator<T>,
+  total: () => number | undefined,
+  close: () => void,
+): Iter<T> {
+  let yielded = 0;
+
+  return new Iter(
+    function* () {
+      try {
+        while (true) {
+          const result = inner.next();
+          if (result.done) return;
+
+          yielded++;
+          yield result.value;
+        }
+      } finally {
+        close();
+      }
+    }(),
+    () => {
+      const size = total();
+      if (size === undefined) return [0, undefined];
+      return [size - yielded, size - yielded];
+    },
+  );
+}
+
+/**
+ * Wraps the iterable in an {@link Iter}, with an exact size hint for arrays, sets, maps and
+ * strings.
+ * @param iterable the iterable to wrap.
+ * @returns the iterable itself if it already is a {@link Iter}.
+ */
+function sized<T>(iterable: Iterable<T>): Iter<T> {
+  if (iterable instanceof Iter) return iterable;
+  if (isCollection(iterable)) return fromCollection(iterable) as Iter<T>;
+
+  return new Iter(iterable[Symbol.iterator]());
+}
+
+/**
+ * @returns the bounds on how many items the iterable has, without starting to iterate it.
+ */
+function hintOf(iterable: Iterable<unknown>): SizeHint {
+  if (iterable instanceof Iter) return iterable.sizeHint();
+  if (isCollection(iterable)) return fromCollection(iterable).sizeHint();
+
+  return [0, undefined];
+}
+
+/**
+ * The collections accepted by {@link Iter.from}.
+ */
+type Collection =
+  | readonly unknown[]
+  | ReadonlySet<unknown>
+  | ReadonlyMap<unknown, unknown>
+  | string;
+
+/**
+ * @returns if {@link Iter.from} accepts the iterable.
+ */
+function isCollection(iterable: Iterable<unknown>): iterable is Collection {
+  return Array.isArray(iterable) || iterable instanceof Set ||
+    iterable instanceof Map || typeof iterable === "string";
+}
+
+/**
+ * Creates a {@link Iter} over the collection with an exact size hint.
+ * @param source the collection to iterate over.
+ * @returns a {@link Iter} with an exact size hint.
+ */
+function fromCollection(source: Collection): Iter<unknown> {
+  if (Array.isArray(source)) return new ArrayIter(source);
+
+  if (typeof source === "string") {
+    // Counting code points means walking the string, so only do it once it's asked for.
+    let codePoints: number | undefined;
+
+    return new CollectionIter(source, () => {
+      if (codePoints === undefined) {
+        codePoints = 0;
+        for (const _ of source) codePoints++;
+      }
+
+      return codePoints;
+    });
+  }
+
+  const collection = source as
+    | ReadonlySet<unknown>
+    | ReadonlyMap<unknown, unknown>;
+  return new CollectionIter(collection, () => collection.size);
+}
+
+/**
+ * @returns if the iterable can be read from the back once wrapped by {@link doubleEnded}.
+ */
+function isDoubleEnded<T>(
+  iterable: Iterable<T>,
+): iterable is DoubleEndedIter<T> | readonly T[] {
+  return iterable instanceof DoubleEndedIter || Array.isArray(iterable);
+}
+
+/**
+ * @returns the iterable as a {@link DoubleEndedIter}.
+ */
+function doubleEnded<T>(
+  iterable: DoubleEndedIter<T> | readonly T[],
+): DoubleEndedIter<T> {
+  return iterable instanceof DoubleEndedIter ? iterable : Iter.from(iterable);
+}
+
+/**
+ * @returns if the iterator knows exactly how many items it has left.
+ */
+function hasExactSize(iter: Iter<unknown>): boolean {
+  const [lower, upper] = iter.sizeHint();
+  return lower === upper;
+}
+
+/**
+ * @returns the bounds of iterators that are read in lockstep, ending with the shortest one.
+ */
+function minHints(
+  [leftLower, leftUpper]: SizeHint,
+  [rightLower, rightUpper]: SizeHint,
+): SizeHint {
+  const uppers = [leftUpper, rightUpper].filter((upper) => upper !== undefined);
+  return [
+    Math.min(leftLower, rightLower),
+    uppers.length ? Math.min(...uppers) : undefined,
+  ];
+}
+
+/**
+ * @returns the combined bounds of iterators that are read one after another.
+ */
+function sumHints(hints: SizeHint[]): SizeHint {
+  return hints.reduce<SizeHint>(
+    ([lower, upper], [nextLower, nextUpper]) => [
+      lower + nextLower,
+      upper === undefined || nextUpper === undefined
+        ? undefined
+        : upper + nextUpper,
+    ],
+    [0, 0],
+  );
+}
+
+/**
+ * An {@link Iter} over a slice of an array, which can count and skip items without reading them.
+ */
+class ArrayIter<T> extends DoubleEndedIter<T, true> {
+  #state: { index: number; end: number };
+  #items: readonly T[];
+
+  constructor(items: readonly T[]) {
+    const state = { index: 0, end: items.length };
+
+    super({
+      next: () =>
+        state.index < state.end
+          ? { done: false, value: items[state.index++] }
+          : { done: true, value: undefined },
+      nextBack: () =>
+        state.index < state.end
+          ? { done: false, value: items[--state.end] }
+          : { done: true, value: undefined },
+      return: (value?: unknown) => {
+        state.index = state.end;
+        return { done: true, value };
+      },
+    }, () => [state.end - state.index, state.end - state.index]);
+
+    this.#state = state;
+    this.#items = items;
+  }
+
+  /**
+   * @returns the number of items left, without reading them.
+   */
+  override count(): number {
+    const count = this.#state.end - this.#state.index;
+    this.#state.index = this.#state.end;
+    return count;
+  }
+
+  /**
+   * Skips straight to the nth item.
+   * @param n the zero based index of the item.
+   * @returns the nth item, or undefined if the iterator ends before reaching it.
+   */
+  override nth(n: number): T | undefined {
+    if (n < 0) return undefined;
+
+    const state = this.#state;
+    state.index = Math.min(state.index + n, state.end);
+    return this.next().value;
+  }
+
+  /**
+   * @returns the last item, or undefined if there are no items left.
+   */
+  override last(): T | undefined {
+    const state = this.#state;
+    if (state.index >= state.end) return undefined;
+
+    state.index = state.end;
+    return this.#items[state.end - 1];
+  }
+
+  /**
+   * @returns the items left as an array, copied in one go.
+   */
+  override collect(): T[] {
+    const state = this.#state;
+    const items = this.#items.slice(state.index, state.end);
+    state.index = state.end;
+    return items;
+  }
+}
+
+/**
+ * An {@link Iter} over evenly spaced numbers, which can count and skip numbers without producing
+ * them.
+ */
+class RangeIter extends DoubleEndedIter<number, true> {
+  #state: { front: number; back: number };
+
+  /**
+   * @param start the first number.
+   * @param step the distance between numbers.
+   * @param length how many numbers there are.
+   */
+  constructor(start: number, step: number, length: number) {
+    // Indices of the numbers left, the front one included and the back one excluded.
+    const state = { front: 0, back: length };
+
+    super({
+      next: () =>
+        state.front < state.back
+          ? { done: false, value: start + state.front++ * step }
+          : { done: true, value: undefined },
+      nextBack: () =>
+        state.front < state.back
+          ? { done: false, value: start + --state.back * step }
+          : { done: true, value: undefined },
+      return: (value?: unknown) => {
+        state.front = state.back;
+        return { done: true, value };
+      },
+    }, () => [state.back - state.front, state.back - state.front]);
+
+    this.#state = state;
+  }
+
+  /**
+   * @returns the number of numbers left, without producing them.
+   */
+  override count(): number {
+    const count = this.#state.back - this.#state.front;
+    this.#state.front = this.#state.back;
+    return count;
+  }
+
+  /**
+   * Skips straight to the nth number.
+   * @param n the zero based index of the number.
+   * @returns the nth number, or undefined if the iterator ends before reaching it.
+   */
+  override nth(n: number): number | undefined {
+    if (n < 0) return undefined;
+
+    const state = this.#state;
+    state.front = Math.min(state.front + n, state.back);
+    return this.next().value;
+  }
+}
+
+/**
+ * An {@link Iter} over a set, map or string, which can count the items left without reading them.
+ */
+class CollectionIter<T> extends Iter<T> {
+  /**
+   * @param collection the collection to iterate over.
+   * @param size a function that returns how many items the collection has in total.
+   */
+  constructor(collection: Iterable<T>, size: () => number) {
+    const iterator = collection[Symbol.iterator]();
+    const state = { yielded: 0, done: false };
+
+    super({
+      next: () => {
+        if (state.done) return { done: true, value: undefined };
+
+        const result = iterator.next();
+        if (result.done) state.done = true;
+        else state.yielded++;
+
+        return result;
+      },
+      return: (value?: unknown) => {
+        state.done = true;
+        return { done: true, value };
+      },
+    }, () => {
+      const left = state.done ? 0 : size() - state.yielded;
+      return [left, left];
+    });
+  }
+
+  /**
+   * @returns the number of items left, without reading them.
+   */
+  override count(): number {
+    const [count] = this.sizeHint();
+    this.return();
+    return count;
+  }
+
+  /**
+   * Finds the nth item, only reading items if the collection has that many left.
+   * @param n the zero based index of the item.
+   * @returns the nth item, or undefined if the iterator ends before reaching it.
+   */
+  override nth(n: number): T | undefined {
+    if (n >= this.sizeHint()[0]) {
+      this.return();
+      return undefined;
+    }
+
+    return super.nth(n);
+  }
 }
@@ -0,0 +1,25 @@
+// Checks that the Node build in dist can map items in worker_threads workers, run by CI after
+// `npm run build` with `npm run test:node`.
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const { AsyncIter } = require("../dist/mod.js");
+const { spawnNodeWorker } = require("../dist/node.js");
+
+const fixtures =
+  "data:text/javascript,export const square = (item) => item * item;";
+
+const items = await AsyncIter.from([1, 2, 3])
+  .mapInWorkers(fixtures, "square", { workers: 2, spawn: spawnNodeWorker })
+  .collect();
+
+assert.deepEqual(items, [1, 4, 9]);
+
+// Without a spawn option, the Node build starts worker_threads workers too.
+const defaults = await AsyncIter.from([1, 2, 3])
+  .mapInWorkers(fixtures, "square")
+  .collect();
+
+assert.deepEqual(defaults, [1, 4, 9]);
+console.log("mapInWorkers works in the Node build");
@@ -0,0 +1,19 @@
+// Functions mapped in workers by workers.test.ts and node.test.ts.
+
+export function square(item: number): number {
+  return item * item;
+}
+
+export async function delayedSquare(item: number): Promise<number> {
+  await new Promise((resolve) => setTimeout(resolve, (5 - item) * 20));
+  return item * item;
+}
+
+export function sum(buffer: ArrayBuffer): [number, ArrayBuffer] {
+  const total = new Uint8Array(buffer).reduce((a, b) => a + b, 0);
+  return [total, buffer];
+}
+
+export function fail(item: number): number {
+  throw new RangeError(`can't map ${item}`);
+}
@@ -0,0 +1,189 @@
+/**
+ * Options for {@link AsyncIter.parseCsv}.
+ */
+export interface ParseCsvOptions {
+  /**
+   * How rows are turned into records.
+   * - `true` reads the names of the fields from the first row.
+   * - An array provides the names of the fields, every row is a record.
+   * - `false` yields every row as an array of fields instead.
+   *
+   * `true` if not provided.
+   */
+  header?: boolean | string[];
+  /**
+   * The character between fields, `,` if not provided.
+   */
+  separator?: string;
+}
+
+/**
+ * Options for {@link AsyncIter.toCsv}.
+ */
+export interface ToCsvOptions {
+  /**
+   * The names of the fields written from every record, in order, the keys of the first record if
+   * not provided. Arrays are written as they are without a header.
+   */
+  header?: string[];
+  /**
+   * The character between fields, `,` if not provided.
+   */
+  separator?: string;
+}
+
+/**
+ * Describes why a line of text couldn't be parsed.
+ */
+export class ParseError extends Error {
+  /**
+   * @param message what was wrong with the line.
+   * @param line the number of the line, starting from 1.
+   * @param options the error thrown while parsing the line.
+   */
+  constructor(
+    message: string,
+    readonly line: number,
+    options?: { cause?: unknown },
+  ) {
+    super(`line ${line}: ${message}`, options);
+    this.name = "ParseError";
+  }
+}
+
+/**
+ * A row of fields and the line it started on.
+ */
+export interface CsvRow {
+  fields: string[];
+  line: number;
+}
+
+/**
+ * Splits CSV text into rows as defined by RFC 4180, where the text can be fed in chunks that split
+ * rows, fields and even quotes anywhere. Rows can end in CRLF, LF or CR, blank lines are skipped.
+ */
+export class CsvParser {
+  #separator: string;
+  // Where in a field the parser is, which decides what quotes, separators and newlines mean.
+  #state: "start" | "unquoted" | "quoted" | "closed" = "start";
+  #field = "";
+  #fields: string[] = [];
+  #line = 1;
+  #rowLine = 1;
+  // Whether the previous character ended a row with a CR, so an LF right after it is part of it.
+  #afterCr = false;
+
+  constructor(separator = ",") {
+    if (separator.length !== 1 || `"\r\n`.includes(separator)) {
+      throw new RangeError(
+        "separator must be a single character other than a quote or newline",
+      );
+    }
+
+    this.#separator = separator;
+  }
+
+  /**
+   * Parses the next chunk of text.
+   * @param chunk the text following the previous chunk.
+   * @returns the rows that were completed by the chunk.
+   */
+  feed(chunk: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+
+    for (const char of chunk) {
+      const afterCr = this.#afterCr;
+      this.#afterCr = false;
+
+      if (this.#state === "quoted") {
+        if (char === '"') {
+          this.#state = "closed";
+        } else {
+          this.#field += char;
+          if (char === "\n") this.#line++;
+        }
+
+        continue;
+      }
+
+      if (char === '"' && this.#state === "closed") {
+        // A doubled quote inside a quoted field is a literal quote.
+        this.#field += char;
+        this.#state = "quoted";
+      } else if (char === '"' && this.#state === "start") {
+        this.#state = "quoted";
+      } else if (char === this.#separator) {
+        this.#fields.push(this.#field);
+        this.#field = "";
+        this.#state = "start";
+      } else if (char === "\n" || char === "\r") {
+        // Rows end in CRLF, but a lone LF or CR is accepted too.
+        if (char === "\n" && afterCr) continue;
+
+        this.#endRow(rows);
+        this.#line++;
+        this.#rowLine = this.#line;
+        this.#afterCr = char === "\r";
+      } else if (this.#state === "closed") {
+        throw new ParseError(
+          `unexpected ${JSON.stringify(char)} after a closing quote`,
+          this.#line,
+        );
+      } else {
+        this.#field += char;
+        this.#state = "unquoted";
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parses the end of the text.
+   * @returns the last row if the text didn't end with a newline.
+   */
+  finish(): CsvRow[] {
+    if (this.#state === "quoted") {
+      throw new ParseError("unterminated quoted field", this.#rowLine);
+    }
+
+    const rows: CsvRow[] = [];
+    this.#endRow(rows);
+    return rows;
+  }
+
+  #endRow(rows: CsvRow[]) {
+    const blank = this.#fields.length === 0 && this.#field === "" &&
+      this.#state === "start";
+
+    if (!blank) {
+      rows.push({
+        fields: [...this.#fields, this.#field],
+        line: this.#rowLine,
+      });
+    }
+
+    this.#fields = [];
+    this.#field = "";
+    this.#state = "start";
+  }
+}
+
+/**
+ * Formats the values as a line of CSV, quoting the fields that need it.
+ * @param values the values of the fields, where null and undefined are written as empty fields.
+ * @param separator the character between fields.
+ * @returns the line, ending in CRLF.
+ */
+export function formatCsvRow(values: unknown[], separator: string): string {
+  const fields = values.map((value) => {
+    const field = value === null || value === undefined ? "" : String(value);
+
+    return field.includes(separator) || /["\r\n]/.test(field)
+      ? `"${field.replaceAll('"', '""')}"`
+      : field;
+  });
+
+  return `${fields.join(separator)}\r\n`;
+}
@@ -0,0 +1,38 @@
+import { assertEquals } from "https://deno.land/std@0.97.0/testing/asserts.ts";
+import { VirtualScheduler } from "./time.ts";
+
+Deno.test({
+  name: "virtual scheduler runs due callbacks in order",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const ran: [string, number][] = [];
+
+    scheduler.setTimeout(() => ran.push(["b", scheduler.now()]), 20);
+    scheduler.setTimeout(() => ran.push(["a", scheduler.now()]), 10);
+    const cancelled = scheduler.setTimeout(() => ran.push(["c", 0]), 15);
+    scheduler.clearTimeout(cancelled);
+    scheduler.setTimeout(() => ran.push(["d", scheduler.now()]), 40);
+
+    await scheduler.advance(30);
+
+    assertEquals(ran, [["a", 10], ["b", 20]]);
+    assertEquals(scheduler.now(), 30);
+  },
+});
+
+Deno.test({
+  name: "virtual scheduler lets promises settle between callbacks",
+  async fn() {
+    const scheduler = new VirtualScheduler();
+    const ran: number[] = [];
+
+    scheduler.setTimeout(async () => {
+      await Promise.resolve();
+      scheduler.setTimeout(() => ran.push(scheduler.now()), 5);
+    }, 10);
+
+    await scheduler.advance(20);
+
+    assertEquals(ran, [15]);
+  },
+});
@@ -0,0 +1,139 @@
+/**
+ * The source of time for time based operators, which can be replaced to run them under fake time.
+ */
+export interface Scheduler {
+  /**
+   * @returns the current time in milliseconds.
+   */
+  now(): number;
+
+  /**
+   * Runs the callback once the provided number of milliseconds has passed.
+   * @param callback the function to run.
+   * @param ms how many milliseconds to wait.
+   * @returns a handle that can be passed to {@link Scheduler.clearTimeout}.
+   */
+  setTimeout(callback: () => void, ms: number): unknown;
+
+  /**
+   * Cancels a callback that hasn't run yet.
+   * @param handle the handle returned by {@link Scheduler.setTimeout}.
+   */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Options shared by all time based operators.
+ */
+export interface TimeOptions {
+  /**
+   * The scheduler used to wait, {@link systemScheduler} if not provided.
+   */
+  scheduler?: Scheduler;
+}
+
+/**
+ * A {@link Scheduler} using the real clock and timers.
+ */
+export const systemScheduler: Scheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * A {@link Scheduler} where time only moves forward when told to, so time based operators can be
+ * tested without waiting.
+ */
+export class VirtualScheduler implements Scheduler {
+  #now: number;
+  #nextHandle = 0;
+  #timers = new Map<number, { at: number; callback: () => void }>();
+
+  constructor(start = 0) {
+    this.#now = start;
+  }
+
+  now(): number {
+    return this.#now;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.#nextHandle++;
+    this.#timers.set(handle, { at: this.#now + Math.max(ms, 0), callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.#timers.delete(handle as number);
+  }
+
+  /**
+   * Moves time forward, running every callback that becomes due in the order they are due and
+   * letting the work they trigger settle before running the next one.
+   * @param ms how many milliseconds to move forward.
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.#now + ms;
+    await settle();
+
+    while (true) {
+      let due: [number, { at: number; callback: () => void }] | undefined;
+
+      for (const timer of this.#timers) {
+        if (timer[1].at > target) continue;
+        if (due === undefined || timer[1].at < due[1].at) due = timer;
+      }
+
+      if (due === undefined) break;
+
+      const [handle, { at, callback }] = due;
+      this.#timers.delete(handle);
+      this.#now = at;
+      callback();
+      await settle();
+    }
+
+    this.#now = target;
+  }
+}
+
+/**
+ * Thrown by {@link AsyncIter.timeout} when an item doesn't arrive in time.
+ */
+export class TimeoutError extends Error {
+  /**
+   * @param ms how many milliseconds were waited for the item.
+   */
+  constructor(readonly ms: number) {
+    super(`no item arrived within ${ms}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Waits for the provided number of milliseconds.
+ * @param scheduler the scheduler used to wait.
+ * @param ms how many milliseconds to wait.
+ * @returns a promise resolving once the time has passed and a function to stop waiting, which
+ * leaves the promise pending.
+ */
+export function sleep(
+  scheduler: Scheduler,
+  ms: number,
+): [Promise<undefined>, () => void] {
+  let handle: unknown;
+  const promise = new Promise<undefined>((resolve) => {
+    handle = scheduler.setTimeout(() => resolve(undefined), ms);
+  });
+
+  return [promise, () => scheduler.clearTimeout(handle)];
+}
+
+/**
+ * Resolves once every pending promise callback has run, by waiting for a real timer.
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
@@ -0,0 +1,124 @@
+import {
+  assertEquals,
+  assertThrowsAsync,
+} from "https://deno.land/std@0.97.0/testing/asserts.ts";
+import { AsyncIter } from "./async.ts";
+import { WorkerError, WorkerPool } from "./workers.ts";
+import type { WorkerSpawner } from "./workers.ts";
+
+const fixtures = new URL("./testdata/workers.ts", import.meta.url);
+
+async function* sequentialIntegers(start = 1, end = 10) {
+  for (let i = start; i <= end; i++) {
+    yield i;
+  }
+}
+
+Deno.test({
+  name: "mapInWorkers iter",
+  async fn() {
+    const items = await new AsyncIter(sequentialIntegers(1, 5))
+      .mapInWorkers<number>(fixtures, "square", { workers: 2 })
+      .collect();
+
+    assertEquals(items, [1, 4, 9, 16, 25]);
+  },
+});
+
+Deno.test({
+  name: "mapInWorkers iter unordered",
+  async fn() {
+    const items = await new AsyncIter(sequentialIntegers(1, 4))
+      .mapInWorkers<number>(fixtures, "delayedSquare", {
+        // A single worker maps all the items at once, so they finish in order of their delays.
+        workers: 1,
+        limit: 4,
+        ordered: false,
+      })
+      .collect();
+
+    assertEquals(items, [16, 9, 4, 1]);
+  },
+});
+
+Deno.test({
+  name: "mapInWorkers iter transfers buffers",
+  async fn() {
+    const buffer = new Uint8Array([1, 2, 3]).buffer;
+    const [[total, returned]] = await AsyncIter.from([buffer])
+      .mapInWorkers<[number, ArrayBuffer]>(fixtures, "sum", { workers: 1 })
+      .collect();
+
+    assertEquals(total, 6);
+    assertEquals(buffer.byteLength, 0);
+    assertEquals(new Uint8Array(returned), new Uint8Array([1, 2, 3]));
+  },
+});
+
+Deno.test({
+  name: "mapInWorkers iter failures",
+  async fn() {
+    const failure = await assertThrowsAsync(
+      () =>
+        new AsyncIter(sequentialIntegers(1, 3))
+          .mapInWorkers(fixtures, "fail", { workers: 1 })
+          .collect(),
+      WorkerError,
+      "can't map 1",
+    );
+    assertEquals((failure as WorkerError).cause instanceof Error, true);
+
+    await assertThrowsAsync(
+      () =>
+        new AsyncIter(sequentialIntegers(1, 3))
+          .mapInWorkers(fixtures, "missing", { workers: 1 })
+          .collect(),
+      WorkerError,
+      "doesn't export a function named missing",
+    );
+  },
+});
+
+Deno.test({
+  name: "mapInWorkers iter stops crashed workers",
+  async fn() {
+    let terminated = false;
+    // A real worker crashing prints the uncaught error, so the crash is only reported instead.
+    const spawn: WorkerSpawner = (listener) => ({
+      postMessage: (message) => {
+        if ((message as { kind: string }).kind === "item") {
+          setTimeout(() => listener.error(new Error("crashed")));
+        }
+      },
+      terminate: () => terminated = true,
+    });
+
+    const pool = new WorkerPool<number, number>(spawn, fixtures, "square", 1);
+
+    await assertThrowsAsync(
+      () => pool.run(1),
+      WorkerError,
+      "worker crashed: crashed",
+    );
+    assertEquals(terminated, true);
+    await assertThrowsAsync(() => pool.run(2), WorkerError, "worker crashed");
+  },
+});
+
+Deno.test({
+  name: "mapInWorkers iter fails when a worker can't start",
+  async fn() {
+    const spawn: WorkerSpawner = () => {
+      throw new ReferenceError("Worker is not defined");
+    };
+
+    await assertThrowsAsync(
+      () =>
+        new AsyncIter(sequentialIntegers(1, 3))
+          .mapInWorkers(fixtures, "square", { spawn })
+          .collect(),
+      WorkerError,
+      "starting a worker failed: Worker is not defined",
+    );
+  },
+});
@@ -0,0 +1,349 @@
+import { importModule, moduleUrl } from "./runtime.deno.ts";
+
+/**
+ * Options for {@link AsyncIter.mapInWorkers}.
+ */
+export interface MapInWorkersOptions {
+  /**
+   * How many workers can be started, the number of logical processors if not provided. Workers are
+   * only started once every running worker is busy.
+   */
+  workers?: number;
+  /**
+   * Whether outputs are yielded in the same order as the items they were mapped from rather than
+   * as soon as they are ready, true if not provided.
+   */
+  ordered?: boolean;
+  /**
+   * How many items can be in flight at once, twice the number of workers if not provided.
+   */
+  limit?: number;
+  /**
+   * Starts a worker running {@link serveMap}, {@link spawnWebWorker} if not provided, or
+   * `spawnNodeWorker` in the Node build.
+   */
+  spawn?: WorkerSpawner;
+}
+
+/**
+ * Receives what a worker sends back to the thread that started it.
+ */
+export interface WorkerListener {
+  /**
+   * Called with every message the worker posts.
+   */
+  message(data: unknown): void;
+
+  /**
+   * Called once the worker has crashed.
+   */
+  error(error: unknown): void;
+}
+
+/**
+ * A running worker, as seen from the thread that started it.
+ */
+export interface WorkerHandle {
+  /**
+   * Sends a message to the worker, moving the provided buffers rather than copying them.
+   */
+  postMessage(message: unknown, transfer: ArrayBuffer[]): void;
+
+  /**
+   * Stops the worker, whatever it is doing.
+   */
+  terminate(): void;
+}
+
+/**
+ * Starts a worker running {@link serveMap} that reports back to the provided listener.
+ */
+export type WorkerSpawner = (listener: WorkerListener) => WorkerHandle;
+
+/**
+ * The thread side of a worker, as seen from inside the worker.
+ */
+export interface WorkerPort {
+  /**
+   * Sends a message to the thread that started the worker, moving the provided buffers rather
+   * than copying them.
+   */
+  postMessage(message: unknown, transfer: ArrayBuffer[]): void;
+
+  /**
+   * Calls the listener with every message the thread that started the worker posts.
+   */
+  listen(listener: (data: unknown) => void): void;
+}
+
+/**
+ * Thrown by {@link AsyncIter.mapInWorkers} when mapping an item in a worker failed or a worker
+ * crashed, with the original error as its cause.
+ */
+export class WorkerError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "WorkerError";
+  }
+}
+
+type Request =
+  | { kind: "init"; moduleSpecifier: string; exportName: string }
+  | { kind: "item"; id: number; item: unknown };
+
+type Response =
+  | { kind: "output"; id: number; output: unknown }
+  | { kind: "failure"; id: number; error: RemoteError };
+
+type PooledWorker<Output> = {
+  handle: WorkerHandle;
+  // The items the worker is mapping, by id.
+  tasks: Map<
+    number,
+    { resolve(output: Output): void; reject(error: unknown): void }
+  >;
+};
+
+// Errors lose their prototype when they are cloned between threads, so they're sent as plain data.
+type RemoteError = { name: string; message: string; stack?: string };
+
+/**
+ * Starts a Web Worker running {@link serveMap}, which works in Deno and browsers.
+ */
+export const spawnWebWorker: WorkerSpawner = (listener) => {
+  const worker = new Worker(
+    moduleUrl("map_worker").href,
+    { type: "module" },
+  );
+
+  worker.onmessage = (event) => listener.message(event.data);
+  worker.onerror = (event) => {
+    // Handle the error here rather than letting it bubble up and take down this thread.
+    event.preventDefault();
+    listener.error(event.error ?? new Error(event.message));
+  };
+
+  return worker;
+};
+
+/**
+ * Handles the items sent by {@link AsyncIter.mapInWorkers} inside a worker, mapping them with the
+ * function exported by the requested module.
+ * @param port the connection to the thread that started the worker.
+ */
+export function serveMap(port: WorkerPort): void {
+  let func: Promise<(item: unknown) => unknown> | undefined;
+
+  const respond = (response: Response) =>
+    port.postMessage(
+      response,
+      response.kind === "output" ? transferablesOf(response.output) : [],
+    );
+
+  port.listen(async (data) => {
+    const request = data as Request;
+
+    if (request.kind === "init") {
+      func = importModule(request.moduleSpecifier).then((module) => {
+        const exported = module[request.exportName];
+
+        if (typeof exported !== "function") {
+          throw new TypeError(
+            `${request.moduleSpecifier} doesn't export a function named ${request.exportName}`,
+          );
+        }
+
+        return exported as (item: unknown) => unknown;
+      });
+
+      // The failure is reported for every item instead.
+      func.catch(() => {});
+      return;
+    }
+
+    try {
+      const output = await (await func!)(request.item);
+      respond({ kind: "output", id: request.id, output });
+    } catch (error) {
+      respond({ kind: "failure", id: request.id, error: toRemote(error) });
+    }
+  });
+}
+
+/**
+ * A pool of workers that each map items with the same function, sending every item to the least
+ * busy worker.
+ */
+export class WorkerPool<T, Output> {
+  #spawn: WorkerSpawner;
+  #init: Request;
+  #capacity: number;
+  #workers: PooledWorker<Output>[] = [];
+  #nextId = 0;
+  #failure?: WorkerError;
+  #terminated = false;
+
+  /**
+   * @param spawn starts a worker.
+   * @param moduleSpecifier the module exporting the function, resolved by the workers.
+   * @param exportName the name the function is exported as.
+   * @param capacity how many workers can be started.
+   */
+  constructor(
+    spawn: WorkerSpawner,
+    moduleSpecifier: string | URL,
+    exportName: string,
+    capacity: number,
+  ) {
+    if (capacity < 1) throw new RangeError("workers must be at least 1");
+
+    this.#spawn = spawn;
+    this.#init = {
+      kind: "init",
+      moduleSpecifier: String(moduleSpecifier),
+      exportName,
+    };
+    this.#capacity = capacity;
+  }
+
+  /**
+   * Maps the item in one of the workers, transferring any buffers in the item.
+   * @param item the item to map.
+   * @returns a promise resolving to the output, rejecting with a {@link WorkerError} if mapping
+   * failed, the worker crashed or it couldn't be started.
+   */
+  run(item: T): Promise<Output> {
+    if (this.#failure) return Promise.reject(this.#failure);
+
+    let worker: PooledWorker<Output>;
+    try {
+      worker = this.#leastBusy();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return Promise.reject(
+        new WorkerError(`starting a worker failed: ${message}`, {
+          cause: error,
+        }),
+      );
+    }
+
+    const id = this.#nextId++;
+
+    return new Promise((resolve, reject) => {
+      worker.tasks.set(id, { resolve, reject });
+
+      try {
+        worker.handle.postMessage(
+          { kind: "item", id, item },
+          transferablesOf(item),
+        );
+      } catch (error) {
+        // The item couldn't be cloned, so the worker will never see it.
+        worker.tasks.delete(id);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Stops every worker, leaving the items still being mapped unresolved.
+   */
+  terminate(): void {
+    this.#terminated = true;
+    this.#workers.forEach((worker) => worker.handle.terminate());
+  }
+
+  #leastBusy(): PooledWorker<Output> {
+    const idle = this.#workers.reduce<PooledWorker<Output> | undefined>(
+      (best, worker) =>
+        best === undefined || worker.tasks.size < best.tasks.size
+          ? worker
+          : best,
+      undefined,
+    );
+
+    // Only start another worker once every running worker is busy.
+    if (
+      idle && (idle.tasks.size === 0 || this.#workers.length >= this.#capacity)
+    ) {
+      return idle;
+    }
+
+    const tasks: PooledWorker<Output>["tasks"] = new Map();
+    const handle = this.#spawn({
+      message: (data) => {
+        const response = data as Response;
+        const task = tasks.get(response.id);
+        if (!task) return;
+
+        tasks.delete(response.id);
+
+        if (response.kind === "output") {
+          task.resolve(response.output as Output);
+        } else {
+          task.reject(
+            new WorkerError(
+              `mapping an item failed: ${response.error.message}`,
+              { cause: fromRemote(response.error) },
+            ),
+          );
+        }
+      },
+      error: (error) => {
+        if (this.#terminated) return;
+
+        const message = error instanceof Error ? error.message : String(error);
+        const failure = new WorkerError(`worker crashed: ${message}`, {
+          cause: error,
+        });
+
+        // Nothing else will arrive from the worker, so everything it was working on has failed.
+        this.#failure = failure;
+        tasks.forEach((task) => task.reject(failure));
+        tasks.clear();
+        handle.terminate();
+      },
+    });
+
+    handle.postMessage(this.#init, []);
+
+    const worker = { handle, tasks };
+    this.#workers.push(worker);
+    return worker;
+  }
+}
+
+/**
+ * Finds the buffers in an item or directly inside it, so they can be moved to another thread
+ * instead of being copied.
+ */
+function transferablesOf(value: unknown): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+
+  const add = (value: unknown) => {
+    if (value instanceof ArrayBuffer) buffers.add(value);
+    else if (ArrayBuffer.isView(value) && value.buffer instanceof ArrayBuffer) {
+      buffers.add(value.buffer);
+    }
+  };
+
+  add(value);
+
+  if (Array.isArray(value)) value.forEach(add);
+  else if (value?.constructor === Object) Object.values(value).forEach(add);
+
+  return [...buffers];
+}
+
+function toRemote(error: unknown): RemoteError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: "Error", message: String(error) };
+}
+
+function fromRemote(remote: RemoteError): Error {
+  const error = new Error(remote.message);
+  error.name = remote.name;
+  error.stack = remote.stack;
+  return error;
+}